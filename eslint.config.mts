@@ -22,6 +22,25 @@ export default tseslint.config(
 		},
 	},
 	...obsidianmd.configs.recommended,
+	{
+		// requestUrl buffers the whole response, so streamed chat responses
+		// need fetch. Allowed only in the module that wraps it; the other
+		// globals the recommended config restricts stay restricted.
+		files: ["src/llm/streaming.ts"],
+		rules: {
+			"no-restricted-globals": [
+				"error",
+				{
+					name: "app",
+					message: "Avoid using the global app object. Instead use the reference provided by your plugin instance.",
+				},
+				{
+					name: "localStorage",
+					message: "Prefer `App#saveLocalStorage` / `App#loadLocalStorage` functions to write / read localStorage data that's unique to a vault.",
+				},
+			],
+		},
+	},
 	globalIgnores([
 		"node_modules",
 		"dist",
@@ -0,0 +1,199 @@
+import { App, normalizePath, TFile, TFolder } from "obsidian";
+import type { EmbeddingManager } from "../indexer/embedding-manager";
+import { PrivacyManager } from "../indexer/privacy-manager";
+import type { MyPluginSettings } from "../settings";
+import type { AgentTool, ToolResult } from "./agent";
+
+/** What the note tools need from the plugin. */
+export interface NoteToolsDeps {
+    app: App;
+    embeddingManager: EmbeddingManager;
+    privacyManager: PrivacyManager;
+    getSettings: () => MyPluginSettings;
+}
+
+const DEFAULT_SEARCH_RESULTS = 8;
+const MAX_SEARCH_RESULTS = 20;
+/** Characters of each search hit shown to the model; read_note gives the rest. */
+const SEARCH_SNIPPET_CHARS = 600;
+/** About 4k tokens; longer notes are cut off with a marker. */
+const MAX_NOTE_CHARS = 16000;
+const MAX_FOLDER_ENTRIES = 200;
+const MAX_BACKLINKS = 50;
+
+function stringArg(args: Record<string, unknown>, key: string): string {
+    const value = args[key];
+    return typeof value === "string" ? value.trim() : "";
+}
+
+function failure(message: string): ToolResult {
+    return { content: `Error: ${message}`, summary: message, isError: true };
+}
+
+/**
+ * The tools agent mode offers the model: semantic search, reading a note,
+ * listing a folder and finding backlinks. They apply the same privacy rules
+ * as indexing: excluded folders are invisible and note text is redacted
+ * before it reaches the model.
+ */
+export function createNoteTools(deps: NoteToolsDeps): AgentTool[] {
+    const isExcluded = (path: string) => PrivacyManager.isFolderExcluded(path, deps.getSettings().excludedFolders);
+
+    /**
+     * Find a markdown note from a vault path, a path without `.md`, or a
+     * link-style name such as "Q1 planning" or "[[Q1 planning]]".
+     */
+    const resolveNote = (reference: string): TFile | null => {
+        const name = reference.replace(/^\[\[|\]\]$/g, "").trim();
+        if (!name) return null;
+        const path = normalizePath(name);
+        const direct = deps.app.vault.getAbstractFileByPath(path) ?? deps.app.vault.getAbstractFileByPath(`${path}.md`);
+        const file = direct instanceof TFile ? direct : deps.app.metadataCache.getFirstLinkpathDest(name, "");
+        return file && file.extension === "md" && !isExcluded(file.path) ? file : null;
+    };
+
+    const searchNotes: AgentTool = {
+        definition: {
+            name: "search_notes",
+            description: "Search the user's notes by meaning and keywords. Returns the best-matching passages with the note each comes from.",
+            parameters: {
+                type: "object",
+                properties: {
+                    query: { type: "string", description: "What to look for, phrased as a question or keywords." },
+                    limit: { type: "integer", description: `How many passages to return (default ${DEFAULT_SEARCH_RESULTS}, max ${MAX_SEARCH_RESULTS}).` },
+                },
+                required: ["query"],
+            },
+        },
+        async run(args, context) {
+            const query = stringArg(args, "query");
+            if (!query) return failure("query is required");
+            const limit = typeof args.limit === "number" && args.limit > 0
+                ? Math.min(Math.floor(args.limit), MAX_SEARCH_RESULTS)
+                : DEFAULT_SEARCH_RESULTS;
+
+            const results = await deps.embeddingManager.search(
+                query,
+                limit,
+                deps.getSettings().retrievalPoolSize,
+                context.excludeFiles.length > 0 ? { excludeFiles: context.excludeFiles } : undefined,
+                undefined,
+                context.signal
+            );
+            if (results.length === 0) {
+                return { content: "No matching notes found.", summary: `"${query}": no results` };
+            }
+
+            const content = results.map((result, index) => {
+                const snippet = result.content.length > SEARCH_SNIPPET_CHARS
+                    ? `${result.content.slice(0, SEARCH_SNIPPET_CHARS).trimEnd()}...`
+                    : result.content;
+                return `[${index + 1}] ${result.fileLink} (${result.filePath})\n${snippet}`;
+            }).join("\n\n");
+            const notes = new Set(results.map(result => result.filePath)).size;
+            return { content, summary: `"${query}": ${results.length} passages from ${notes} ${notes === 1 ? "note" : "notes"}` };
+        },
+    };
+
+    const readNote: AgentTool = {
+        definition: {
+            name: "read_note",
+            description: "Read the full text of one note.",
+            parameters: {
+                type: "object",
+                properties: {
+                    path: { type: "string", description: "The note's vault path (e.g. \"Projects/Plan.md\") or its name as used in a WikiLink." },
+                },
+                required: ["path"],
+            },
+        },
+        async run(args) {
+            const reference = stringArg(args, "path");
+            const file = resolveNote(reference);
+            if (!file) return failure(`no note found for "${reference}"`);
+
+            let text = deps.privacyManager.redact(await deps.app.vault.cachedRead(file));
+            const length = text.length;
+            if (length > MAX_NOTE_CHARS) {
+                text = `${text.slice(0, MAX_NOTE_CHARS)}\n\n[Truncated: showing ${MAX_NOTE_CHARS.toLocaleString()} of ${length.toLocaleString()} characters]`;
+            }
+            return {
+                content: `Note: [[${file.basename}]] (${file.path})\n\n${text}`,
+                summary: `${file.path} (${length.toLocaleString()} characters)`,
+            };
+        },
+    };
+
+    const listFolder: AgentTool = {
+        definition: {
+            name: "list_folder",
+            description: "List the notes and subfolders in a folder of the vault. Subfolders end with a slash.",
+            parameters: {
+                type: "object",
+                properties: {
+                    path: { type: "string", description: "Folder path, e.g. \"Projects/2024\". Empty for the top of the vault." },
+                },
+                required: [],
+            },
+        },
+        run(args) {
+            const path = stringArg(args, "path").replace(/^\/+|\/+$/g, "");
+            const folder = path ? deps.app.vault.getAbstractFileByPath(normalizePath(path)) : deps.app.vault.getRoot();
+            if (!(folder instanceof TFolder) || (path && isExcluded(`${folder.path}/`))) {
+                return Promise.resolve(failure(`no folder found at "${path}"`));
+            }
+
+            const entries = folder.children
+                .filter(child => !isExcluded(child instanceof TFolder ? `${child.path}/` : child.path))
+                .map(child => child instanceof TFolder ? `${child.name}/` : child.name)
+                .sort((a, b) => Number(b.endsWith("/")) - Number(a.endsWith("/")) || a.localeCompare(b));
+            const shown = entries.slice(0, MAX_FOLDER_ENTRIES);
+            const more = entries.length - shown.length;
+            const label = path || "/";
+            return Promise.resolve({
+                content: entries.length === 0
+                    ? `${label} is empty.`
+                    : `${label}:\n${shown.join("\n")}${more > 0 ? `\n(${more} more not shown)` : ""}`,
+                summary: `${label}: ${entries.length} ${entries.length === 1 ? "entry" : "entries"}`,
+            });
+        },
+    };
+
+    const getBacklinks: AgentTool = {
+        definition: {
+            name: "get_backlinks",
+            description: "List the notes that link to a note, most links first.",
+            parameters: {
+                type: "object",
+                properties: {
+                    path: { type: "string", description: "The note's vault path or its name as used in a WikiLink." },
+                },
+                required: ["path"],
+            },
+        },
+        run(args) {
+            const reference = stringArg(args, "path");
+            const file = resolveNote(reference);
+            if (!file) return Promise.resolve(failure(`no note found for "${reference}"`));
+
+            const backlinks = Object.entries(deps.app.metadataCache.resolvedLinks)
+                .map(([source, targets]) => ({ source, count: targets[file.path] ?? 0 }))
+                .filter(link => link.count > 0 && link.source !== file.path && !isExcluded(link.source))
+                .sort((a, b) => b.count - a.count);
+            if (backlinks.length === 0) {
+                return Promise.resolve({ content: `No notes link to [[${file.basename}]].`, summary: `${file.path}: no backlinks` });
+            }
+
+            const lines = backlinks.slice(0, MAX_BACKLINKS).map(link => {
+                const name = link.source.replace(/^.*\//, "").replace(/\.md$/, "");
+                return `[[${name}]] (${link.source}): ${link.count} ${link.count === 1 ? "link" : "links"}`;
+            });
+            return Promise.resolve({
+                content: `Notes linking to [[${file.basename}]]:\n${lines.join("\n")}`,
+                summary: `${file.path}: ${backlinks.length} ${backlinks.length === 1 ? "backlink" : "backlinks"}`,
+            });
+        },
+    };
+
+    return [searchNotes, readNote, listFolder, getBacklinks];
+}
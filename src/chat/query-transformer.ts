@@ -1,4 +1,6 @@
-import type { ChatProvider } from "../llm/types";
+import type { ChatProvider, ChatRequestOptions } from "../llm/types";
+import { isAbortError } from "../llm/abort";
+import { requestStructured, StructuredFormat } from "../llm/structured";
 
 /**
  * A conversation turn used as context for query transformation.
@@ -15,30 +17,39 @@ const REWRITE_SYSTEM_PROMPT =
     "You rewrite a user's latest message into a single, standalone search query " +
     "for retrieving notes from their personal knowledge base. Resolve pronouns and " +
     "vague references (e.g. \"it\", \"that one\", \"the other\") using the conversation. " +
-    "Preserve the user's key terms. Output ONLY the rewritten query on a single line, " +
-    "with no quotes, labels, or explanation.";
+    "Preserve the user's key terms. Respond with ONLY a JSON object of the form " +
+    "{\"query\": \"...\"}, with no explanation.";
 
-/**
- * Strip quotes/labels the model may add and collapse to a single line.
- */
-function sanitizeQuery(text: string): string {
-    let line = text.trim().split("\n").map(l => l.trim()).find(l => l.length > 0) ?? "";
-    // Remove a leading label like "Query:" if the model added one.
-    line = line.replace(/^(query|search query|rewritten query)\s*[:\-]\s*/i, "");
-    // Strip surrounding quotes.
-    line = line.replace(/^["'`]+/, "").replace(/["'`]+$/, "");
-    return line.trim();
+interface RewriteOutput {
+    query: string;
 }
 
+const REWRITE_FORMAT: StructuredFormat<RewriteOutput> = {
+    name: "query_rewrite",
+    schema: {
+        type: "object",
+        properties: {
+            query: { type: "string" },
+        },
+        required: ["query"],
+        additionalProperties: false,
+    },
+    check: ({ query }) => query.trim() ? null : "query is empty",
+};
+
 /**
  * Rewrite the latest user message into a standalone retrieval query using the
  * conversation history. Falls back to the original query on any error or when
- * there is no history to resolve against.
+ * there is no history to resolve against. Cancellation via `options.signal`
+ * is the one failure that is not swallowed: it rejects with an AbortError.
+ * Sampling runs at temperature 0, since the rewrite should be deterministic,
+ * and the reply is validated JSON (see `llm/structured.ts`).
  */
 export async function rewriteQuery(
     provider: ChatProvider,
     history: ConversationTurn[],
-    query: string
+    query: string,
+    options: ChatRequestOptions = {}
 ): Promise<string> {
     const recent = history.slice(-MAX_HISTORY_TURNS);
     if (recent.length === 0) {
@@ -56,18 +67,15 @@ export async function rewriteQuery(
         `Standalone search query:`;
 
     try {
-        const response = await provider.sendChatMessage([
+        const response = await requestStructured(provider, [
             { role: "system", content: REWRITE_SYSTEM_PROMPT },
             { role: "user", content: userPrompt }
-        ]);
-
-        if (response.error || !response.content) {
-            return query;
-        }
+        ], REWRITE_FORMAT, { ...options, temperature: 0 });
 
-        const rewritten = sanitizeQuery(response.content);
-        return rewritten.length > 0 ? rewritten : query;
-    } catch {
+        // Validation guarantees a non-empty query; keep it on one line.
+        return response.value ? response.value.query.replace(/\s+/g, " ").trim() : query;
+    } catch (error) {
+        if (isAbortError(error)) throw error;
         return query;
     }
 }
@@ -82,24 +90,27 @@ const HYDE_SYSTEM_PROMPT =
 /**
  * Generate a Hypothetical Document (HyDE) for a query. Embedding a note-like
  * passage tends to match real notes far better than embedding a question does.
- * Returns an empty string on failure so callers can fall back to the raw query.
+ * Returns an empty string on failure so callers can fall back to the raw query,
+ * but rejects with an AbortError if `options.signal` cancels the request.
  */
 export async function generateHydeDocument(
     provider: ChatProvider,
-    query: string
+    query: string,
+    options: ChatRequestOptions = {}
 ): Promise<string> {
     try {
         const response = await provider.sendChatMessage([
             { role: "system", content: HYDE_SYSTEM_PROMPT },
             { role: "user", content: query }
-        ]);
+        ], options);
 
         if (response.error || !response.content) {
             return "";
         }
 
         return response.content.trim();
-    } catch {
+    } catch (error) {
+        if (isAbortError(error)) throw error;
         return "";
     }
 }
@@ -1,5 +1,7 @@
-import type { ChatProvider } from "../llm/types";
+import type { ChatProvider, ChatRequestOptions } from "../llm/types";
 import type { HybridSearchResult } from "../indexer/embedding-manager";
+import { isAbortError } from "../llm/abort";
+import { requestStructured, StructuredFormat } from "../llm/structured";
 
 /** Max characters of each passage shown to the reranker, to bound token cost. */
 const SNIPPET_CHARS = 600;
@@ -7,54 +9,50 @@ const SNIPPET_CHARS = 600;
 const RERANK_SYSTEM_PROMPT =
     "You are a search-result reranker. Given a query and a numbered list of " +
     "passages, decide which passages are most relevant to answering the query. " +
-    "Respond with ONLY a JSON array of passage numbers ordered from most to least " +
-    "relevant, e.g. [3,0,5]. Omit passages that are not relevant. Do not include " +
-    "any text outside the array.";
+    "Respond with ONLY a JSON object whose \"ranking\" field lists passage numbers " +
+    "ordered from most to least relevant, e.g. {\"ranking\": [3, 0, 5]}. Omit " +
+    "passages that are not relevant. Do not include any text outside the object.";
 
-/**
- * Parse a JSON-ish array of indices from the model's reply, tolerating stray
- * text around it.
- */
-function parseIndexArray(text: string, count: number): number[] {
-    const match = text.match(/\[[^\]]*\]/);
-    if (!match) {
-        return [];
-    }
-
-    let parsed: unknown;
-    try {
-        parsed = JSON.parse(match[0]);
-    } catch {
-        return [];
-    }
-
-    if (!Array.isArray(parsed)) {
-        return [];
-    }
+interface RerankOutput {
+    ranking: number[];
+}
 
-    const seen = new Set<number>();
-    const indices: number[] = [];
-    for (const value of parsed) {
-        const index = typeof value === "number" ? value : Number(value);
-        if (Number.isInteger(index) && index >= 0 && index < count && !seen.has(index)) {
-            seen.add(index);
-            indices.push(index);
-        }
-    }
-    return indices;
+/** The reranker's reply format; passage numbers must exist in the list. */
+function rerankFormat(count: number): StructuredFormat<RerankOutput> {
+    return {
+        name: "rerank",
+        schema: {
+            type: "object",
+            properties: {
+                ranking: { type: "array", items: { type: "integer" } },
+            },
+            required: ["ranking"],
+            additionalProperties: false,
+        },
+        check: ({ ranking }) => {
+            const outOfRange = ranking.find(index => index < 0 || index >= count);
+            return outOfRange !== undefined
+                ? `passage ${outOfRange} does not exist; valid numbers are 0 to ${count - 1}`
+                : null;
+        },
+    };
 }
 
 /**
  * Rerank fused search results with a single LLM relevance pass and return the
  * top N in the model's order. This is the "retrieve wide, rerank narrow"
- * pattern; it adds one LLM call, so it is opt-in. Falls back to the original
- * ranking (truncated to topN) on any error or unparseable response.
+ * pattern; it adds one LLM call (two if the first reply fails validation), so
+ * it is opt-in. Falls back to the original ranking (truncated to topN) on any
+ * error or invalid response, except
+ * cancellation via `options.signal`, which rejects with an AbortError. The
+ * pass runs at temperature 0 so the ranking is as stable as the model allows.
  */
 export async function rerankResults(
     provider: ChatProvider,
     query: string,
     candidates: HybridSearchResult[],
-    topN: number
+    topN: number,
+    options: ChatRequestOptions = {}
 ): Promise<HybridSearchResult[]> {
     if (candidates.length <= 1) {
         return candidates.slice(0, topN);
@@ -67,20 +65,17 @@ export async function rerankResults(
     const userPrompt = `Query: ${query}\n\nPassages:\n${list}`;
 
     try {
-        const response = await provider.sendChatMessage([
+        const response = await requestStructured(provider, [
             { role: "system", content: RERANK_SYSTEM_PROMPT },
             { role: "user", content: userPrompt }
-        ]);
-
-        if (response.error || !response.content) {
-            return candidates.slice(0, topN);
-        }
+        ], rerankFormat(candidates.length), { ...options, temperature: 0 });
 
-        const order = parseIndexArray(response.content, candidates.length);
-        if (order.length === 0) {
+        if (!response.value || response.value.ranking.length === 0) {
             return candidates.slice(0, topN);
         }
 
+        // Validation guarantees the numbers are in range; repeats are skipped.
+        const order = [...new Set(response.value.ranking)];
         const reranked: HybridSearchResult[] = [];
         for (const index of order) {
             const candidate = candidates[index];
@@ -89,7 +84,8 @@ export async function rerankResults(
             }
         }
         return reranked.slice(0, topN);
-    } catch {
+    } catch (error) {
+        if (isAbortError(error)) throw error;
         return candidates.slice(0, topN);
     }
 }
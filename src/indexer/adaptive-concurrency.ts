@@ -0,0 +1,77 @@
+/**
+ * How many embedding requests may be in flight at once, adapted to how the
+ * provider copes: the limit creeps up while responses come back healthy and
+ * is halved on rate limiting or a latency spike, the same additive-increase /
+ * multiplicative-decrease scheme TCP uses for its congestion window. Hosted
+ * APIs differ widely in what they tolerate and local servers slow down long
+ * before they fail, so no fixed setting suits every provider.
+ */
+
+/** A response this much slower than the running average counts as a spike. */
+const LATENCY_SPIKE_FACTOR = 2.5;
+/** Responses faster than this are never treated as a spike. */
+const MIN_SPIKE_LATENCY_MS = 2000;
+/** Weight of the newest response in the running latency average. */
+const LATENCY_SMOOTHING = 0.2;
+/** Pause before new requests after a rate limit; doubles while they continue. */
+const BASE_PAUSE_MS = 1000;
+const MAX_PAUSE_MS = 30000;
+
+export class AdaptiveConcurrency {
+    /** Fractional so that a healthy round of responses adds one in total. */
+    private window = 1;
+    private averageLatencyMs: number | null = null;
+    private pauseMs = 0;
+    private resumeAt = 0;
+    /** No further decrease until this time, so one congestion event halves the limit once. */
+    private holdUntil = 0;
+
+    /** @param maxLimit Upper bound set by the user; the limit starts at 1 and ramps up to it */
+    constructor(private readonly maxLimit: number) {}
+
+    /** Requests that may currently be in flight. */
+    get limit(): number {
+        return Math.max(1, Math.min(this.maxLimit, Math.floor(this.window)));
+    }
+
+    /** Milliseconds to wait before starting another request; 0 when not paused. */
+    get pauseRemainingMs(): number {
+        return Math.max(0, this.resumeAt - Date.now());
+    }
+
+    /** A response arrived; a spike in its latency counts as strain. */
+    recordSuccess(latencyMs: number): void {
+        const average = this.averageLatencyMs;
+        this.averageLatencyMs = average === null
+            ? latencyMs
+            : average + LATENCY_SMOOTHING * (latencyMs - average);
+
+        if (average !== null && latencyMs > MIN_SPIKE_LATENCY_MS && latencyMs > average * LATENCY_SPIKE_FACTOR) {
+            this.decrease();
+            return;
+        }
+        this.pauseMs = 0;
+        this.window = Math.min(this.maxLimit, this.window + 1 / this.limit);
+    }
+
+    /**
+     * The provider pushed back: a 429, or a request that only succeeded after
+     * retries. Halves the limit and pauses new requests for a growing while.
+     */
+    recordRateLimit(): void {
+        this.pauseMs = Math.min(MAX_PAUSE_MS, this.pauseMs > 0 ? this.pauseMs * 2 : BASE_PAUSE_MS);
+        this.resumeAt = Math.max(this.resumeAt, Date.now() + this.pauseMs);
+        this.decrease();
+    }
+
+    private decrease(): void {
+        const now = Date.now();
+        if (now < this.holdUntil) {
+            return;
+        }
+        this.window = Math.max(1, this.window / 2);
+        // Requests already in flight were sent at the old limit; let them drain
+        // before judging the new one.
+        this.holdUntil = now + (this.averageLatencyMs ?? BASE_PAUSE_MS);
+    }
+}
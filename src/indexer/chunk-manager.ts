@@ -1,4 +1,4 @@
-import { App, TFile } from "obsidian";
+import { App, getAllTags, parseFrontMatterAliases, TFile } from "obsidian";
 import { DocumentSplitter, TextSplitterConfig, buildEmbedText } from "./text-splitter";
 import { PrivacyManager } from "./privacy-manager";
 
@@ -22,6 +22,23 @@ export interface Chunk {
     embedText: string;
 }
 
+/**
+ * What Obsidian's metadata cache knows about a note, captured when it is
+ * chunked so retrieval can use it without re-reading the file.
+ */
+export interface NoteMetadata {
+    /** Tags from the body and frontmatter, without the leading "#" */
+    tags: string[];
+    aliases: string[];
+    /** Frontmatter properties, with sensitive data redacted from their text */
+    properties: Record<string, unknown>;
+    /** File creation and modification times (ms) */
+    created: number;
+    modified: number;
+    /** Paths of the notes and files this note links to or embeds */
+    links: string[];
+}
+
 /**
  * ChunkManager handles the chunking of vault files and maintains a registry of all chunks.
  * It uses RecursiveCharacterTextSplitter for intelligent text splitting.
@@ -32,6 +49,8 @@ export class ChunkManager {
     private privacyManager: PrivacyManager;
     /** Map of file path to array of chunks */
     private chunksByFile: Map<string, Chunk[]> = new Map();
+    /** Metadata of the files chunked since startup */
+    private metadataByFile: Map<string, NoteMetadata> = new Map();
     /** Folders to exclude from processing */
     private excludedFolders: string[] = [];
 
@@ -70,10 +89,55 @@ export class ChunkManager {
         
         const chunks = this.createChunksFromContent(content, file);
         this.chunksByFile.set(file.path, chunks);
+        this.metadataByFile.set(file.path, this.extractMetadata(file));
         
         return chunks;
     }
 
+    /**
+     * Read a note's tags, properties, aliases, times and outgoing links from
+     * the metadata cache. Property text goes through the same redaction as
+     * the note's content.
+     */
+    extractMetadata(file: TFile): NoteMetadata {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const frontmatter = cache?.frontmatter as Record<string, unknown> | undefined;
+        const tags = cache ? getAllTags(cache) ?? [] : [];
+        const properties: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(frontmatter ?? {})) {
+            properties[key] = this.redactValue(value);
+        }
+
+        return {
+            tags: [...new Set(tags.map(tag => tag.replace(/^#/, "")))],
+            aliases: parseFrontMatterAliases(frontmatter) ?? [],
+            properties,
+            created: file.stat.ctime,
+            modified: file.stat.mtime,
+            links: Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {})
+        };
+    }
+
+    /**
+     * Get the metadata captured when a file was last chunked
+     */
+    getMetadata(path: string): NoteMetadata | undefined {
+        return this.metadataByFile.get(path);
+    }
+
+    private redactValue(value: unknown): unknown {
+        if (typeof value === "string") {
+            return this.privacyManager.redact(value);
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.redactValue(item));
+        }
+        if (value && typeof value === "object") {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.redactValue(item)]));
+        }
+        return value;
+    }
+
     /**
      * Update a file: clear existing chunks and re-process
      */
@@ -87,6 +151,7 @@ export class ChunkManager {
      */
     deleteFile(path: string): void {
         this.chunksByFile.delete(path);
+        this.metadataByFile.delete(path);
     }
 
     /**
@@ -123,6 +188,12 @@ export class ChunkManager {
         // Remove old entry and add new one
         this.chunksByFile.delete(oldPath);
         this.chunksByFile.set(newPath, updatedChunks);
+
+        const metadata = this.metadataByFile.get(oldPath);
+        if (metadata) {
+            this.metadataByFile.delete(oldPath);
+            this.metadataByFile.set(newPath, metadata);
+        }
     }
 
     /**
@@ -143,6 +214,14 @@ export class ChunkManager {
         return this.chunksByFile.get(path) ?? [];
     }
 
+    /**
+     * Look up chunks by id, skipping ids whose file or chunk no longer exists
+     */
+    getChunksByIds(ids: string[]): Chunk[] {
+        const wanted = new Set(ids);
+        return this.getAllChunks().filter(chunk => wanted.has(chunk.id));
+    }
+
     /**
      * Get the total number of chunks
      */
@@ -166,6 +245,7 @@ export class ChunkManager {
      */
     clearAll(): void {
         this.chunksByFile.clear();
+        this.metadataByFile.clear();
     }
 
     /**
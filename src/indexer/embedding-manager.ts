@@ -1,8 +1,11 @@
 import { Notice } from "obsidian";
 import { Chunk, ChunkManager } from "./chunk-manager";
-import { VectorStore, SearchOptions } from "./vector-store";
+import { VectorStore, SearchOptions, SearchResult } from "./vector-store";
 import { LexicalIndex } from "./lexical-index";
+import { AdaptiveConcurrency } from "./adaptive-concurrency";
+import type { EmbeddingPrefixes } from "./embedding-profiles";
 import type { EmbeddingProvider } from "../llm/types";
+import { isAbortError } from "../llm/abort";
 
 /**
  * How vector and lexical (BM25) rankings are combined.
@@ -29,15 +32,65 @@ const RRF_K = 60;
 export interface EmbeddingManagerConfig {
     /** Batch size for embedding API calls */
     batchSize: number;
-    /** Delay between batches in ms to avoid rate limiting */
+    /** Minimum delay between the starts of two batches in ms, to avoid rate limiting */
     batchDelayMs: number;
+    /** Estimated tokens per embedding API call; a batch is closed early once it would exceed this */
+    maxBatchTokens: number;
+    /** Most batches in flight at once; the actual number adapts to the provider (see {@link AdaptiveConcurrency}) */
+    maxConcurrency: number;
+    /** How often a long run saves its progress to disk, in ms */
+    saveIntervalMs: number;
 }
 
 const DEFAULT_CONFIG: EmbeddingManagerConfig = {
     batchSize: 20,
-    batchDelayMs: 100
+    batchDelayMs: 100,
+    maxBatchTokens: 16000,
+    maxConcurrency: 4,
+    saveIntervalMs: 30000
 };
 
+/**
+ * Characters per token used to estimate token counts. Real tokenizers
+ * average closer to four for English prose, but code, URLs and non-Latin
+ * scripts take more tokens per character, so the estimate errs low.
+ */
+const CHARS_PER_TOKEN = 3;
+
+/** A truncated input is not shortened below this many characters; it fails instead. */
+const MIN_TRUNCATED_CHARS = 200;
+
+/** A chunk waiting to be embedded, with the text actually sent and the hash stored with its vector. */
+interface PendingChunk {
+    chunk: Chunk;
+    text: string;
+    hash: string;
+}
+
+/** State shared by the batches of one {@link EmbeddingManager.embedChunks} run. */
+interface EmbeddingRun {
+    provider: EmbeddingProvider;
+    result: EmbeddingResult;
+    concurrency: AdaptiveConcurrency;
+    signal?: AbortSignal;
+}
+
+/**
+ * Whether a failed embedding request was rejected because an input exceeds
+ * the model's context. Providers word this differently ("maximum context
+ * length", "input is too long", "too many tokens"), and it surfaces as a 400
+ * or 413, or without a status through a fallback chain.
+ */
+function isInputTooLong(error: string, status?: number): boolean {
+    if (status === 413) {
+        return true;
+    }
+    if (status !== undefined && status !== 400) {
+        return false;
+    }
+    return /context length|too long|too many tokens|maximum.*tokens|exceeds? .*(limit|context|tokens)/i.test(error);
+}
+
 /**
  * Result of an embedding operation
  */
@@ -45,7 +98,13 @@ export interface EmbeddingResult {
     processed: number;
     skipped: number;
     failed: number;
+    /** Chunks whose batch needed more than one attempt (but may have succeeded) */
+    retriedChunkIds: string[];
+    /** Chunks that still had no vector after all retries; a later rebuild picks them up again */
+    failedChunkIds: string[];
     error?: string;
+    /** True if the run was stopped early via its abort signal; progress so far is kept. */
+    cancelled?: boolean;
 }
 
 /**
@@ -61,6 +120,12 @@ export class EmbeddingManager {
     private hybridStrategy: HybridStrategy = "rrf";
     /** Weight of the vector component in "weighted" mode (0..1). */
     private vectorWeight: number = 0.6;
+    /** Why the stored vectors don't match the configured embedding model, if they don't. */
+    private modelMismatch: string | null = null;
+    /** Task prefixes the embedding model expects for queries and chunks. */
+    private prefixes: EmbeddingPrefixes = { query: "", document: "" };
+    /** Longest input the embedding model accepts, in tokens. */
+    private maxInputTokens = 8191;
 
     constructor(
         chunkManager: ChunkManager,
@@ -80,6 +145,42 @@ export class EmbeddingManager {
         this.embeddingProvider = provider;
     }
 
+    /**
+     * Set the task prefixes for the embedding model. The document prefix is
+     * part of the hashed text, so changing it re-embeds every chunk on the
+     * next pass.
+     */
+    setEmbeddingPrefixes(prefixes: EmbeddingPrefixes): void {
+        this.prefixes = prefixes;
+    }
+
+    /**
+     * Set the embedding model's input limit in tokens. Longer chunks are
+     * truncated before they are sent, so the model sees their beginning
+     * rather than rejecting the whole batch.
+     */
+    setMaxInputTokens(limit: number): void {
+        this.maxInputTokens = Math.max(1, limit);
+    }
+
+    /**
+     * Set the most embedding batches sent at once. Runs start with one and
+     * work up to this while the provider keeps up.
+     */
+    setMaxConcurrency(limit: number): void {
+        this.config = { ...this.config, maxConcurrency: Math.max(1, Math.round(limit)) };
+    }
+
+    /**
+     * Flag that the stored vectors came from a different embedding model than
+     * the configured one (null once they match again). While flagged, search
+     * falls back to lexical matching and no new vectors are stored, so the
+     * two models' vectors never end up mixed in one index.
+     */
+    setModelMismatch(message: string | null): void {
+        this.modelMismatch = message;
+    }
+
     /**
      * Configure how vector and lexical rankings are fused.
      */
@@ -103,25 +204,36 @@ export class EmbeddingManager {
     }
 
     /**
-     * Process chunks and generate embeddings for those that need it
+     * Process chunks and generate embeddings for those that need it. Several
+     * batches are sent at once, as many as the provider handles well, and
+     * progress is saved every `saveIntervalMs` so a crash mid-run keeps most
+     * of the work. If `signal` fires, no further batches are sent; vectors
+     * embedded so far are still saved and the result is marked `cancelled`.
      */
-    async embedChunks(chunks: Chunk[]): Promise<EmbeddingResult> {
+    async embedChunks(chunks: Chunk[], signal?: AbortSignal): Promise<EmbeddingResult> {
         const result: EmbeddingResult = {
             processed: 0,
             skipped: 0,
-            failed: 0
+            failed: 0,
+            retriedChunkIds: [],
+            failedChunkIds: []
         };
 
         if (!this.embeddingProvider) {
             return { ...result, error: "Embedding provider not configured" };
         }
 
+        if (this.modelMismatch) {
+            return { ...result, error: `${this.modelMismatch} Run 'Force Rebuild Index' to re-embed your notes.` };
+        }
+
         if (chunks.length === 0) {
             return result;
         }
 
         // Separate chunks that need embedding from those that can be skipped
-        const chunksToEmbed: Array<{ chunk: Chunk; hash: string }> = [];
+        const chunksToEmbed: PendingChunk[] = [];
+        const maxInputChars = this.maxInputTokens * CHARS_PER_TOKEN;
         let i = 0;
 
         for (const chunk of chunks) {
@@ -130,14 +242,18 @@ export class EmbeddingManager {
                 await this.delay(5);
             }
 
-            // Hash the embedded text (title + breadcrumb + content) so that a
-            // change to the heading context also triggers a re-embed.
-            const hash = this.hashContent(chunk.embedText);
+            // Hash the embedded text (prefix + title + breadcrumb + content) so
+            // that a change to the heading context or the embedding profile
+            // also triggers a re-embed.
+            const text = this.prefixes.document + chunk.embedText;
+            const hash = this.hashContent(text);
             
             if (this.vectorStore.hasValidVector(chunk.id, hash)) {
                 result.skipped++;
             } else {
-                chunksToEmbed.push({ chunk, hash });
+                // The hash stays that of the full text, so a truncated chunk
+                // isn't re-embedded on every pass.
+                chunksToEmbed.push({ chunk, text: text.slice(0, maxInputChars), hash });
             }
         }
 
@@ -145,50 +261,45 @@ export class EmbeddingManager {
             return result;
         }
 
-        // Process in batches
-        for (let i = 0; i < chunksToEmbed.length; i += this.config.batchSize) {
-            // Yield to the main thread to keep UI responsive
-            await this.delay(10);
-            
-            const batch = chunksToEmbed.slice(i, i + this.config.batchSize);
-            const texts = batch.map(item => item.chunk.embedText);
-
-            try {
-                const response = await this.embeddingProvider.getEmbeddings(texts);
-
-                if (response.error) {
-                    console.error(`Embedding batch error: ${response.error}`);
-                    result.failed += batch.length;
-                    continue;
+        const batches = this.packBatches(chunksToEmbed);
+        const run: EmbeddingRun = {
+            provider: this.embeddingProvider,
+            result,
+            concurrency: new AdaptiveConcurrency(this.config.maxConcurrency),
+            signal
+        };
+        const inFlight = new Set<Promise<void>>();
+        let next = 0;
+        let lastStart = 0;
+        let lastSave = Date.now();
+
+        while (next < batches.length || inFlight.size > 0) {
+            while (next < batches.length && inFlight.size < run.concurrency.limit && !signal?.aborted) {
+                // Space out batch starts to avoid rate limiting, and yield to
+                // the main thread to keep the UI responsive
+                const wait = Math.max(lastStart + this.config.batchDelayMs - Date.now(), run.concurrency.pauseRemainingMs);
+                await this.delay(Math.max(10, wait));
+                if (signal?.aborted) {
+                    break;
                 }
 
-                // Save each embedding
-                for (let j = 0; j < batch.length; j++) {
-                    const embedding = response.embeddings[j];
-                    const item = batch[j];
-                    if (embedding && item) {
-                        this.vectorStore.saveVector(
-                            item.chunk.id, 
-                            embedding, 
-                            item.hash,
-                            item.chunk.content,
-                            item.chunk.filePath,
-                            item.chunk.fileLink,
-                            item.chunk.heading
-                        );
-                        result.processed++;
-                    } else {
-                        result.failed++;
-                    }
-                }
-            } catch (error) {
-                console.error("Embedding batch failed:", error);
-                result.failed += batch.length;
+                const batch = batches[next++] ?? [];
+                lastStart = Date.now();
+                const task: Promise<void> = this.runBatch(run, batch).finally(() => inFlight.delete(task));
+                inFlight.add(task);
             }
 
-            // Delay between batches to avoid rate limiting
-            if (i + this.config.batchSize < chunksToEmbed.length) {
-                await this.delay(this.config.batchDelayMs);
+            if (signal?.aborted && next < batches.length) {
+                result.cancelled = true;
+            }
+            if (inFlight.size === 0) {
+                break;
+            }
+            await Promise.race(inFlight);
+
+            if (Date.now() - lastSave >= this.config.saveIntervalMs) {
+                await this.vectorStore.save();
+                lastSave = Date.now();
             }
         }
 
@@ -198,6 +309,120 @@ export class EmbeddingManager {
         return result;
     }
 
+    /**
+     * Group chunks into batches of at most `batchSize` chunks and about
+     * `maxBatchTokens` estimated tokens. A batch always takes at least one
+     * chunk, however long.
+     */
+    private packBatches(items: PendingChunk[]): PendingChunk[][] {
+        const batches: PendingChunk[][] = [];
+        let current: PendingChunk[] = [];
+        let currentTokens = 0;
+
+        for (const item of items) {
+            const tokens = Math.ceil(item.text.length / CHARS_PER_TOKEN);
+            if (current.length > 0 && (current.length >= this.config.batchSize || currentTokens + tokens > this.config.maxBatchTokens)) {
+                batches.push(current);
+                current = [];
+                currentTokens = 0;
+            }
+            current.push(item);
+            currentTokens += tokens;
+        }
+        if (current.length > 0) {
+            batches.push(current);
+        }
+        return batches;
+    }
+
+    /**
+     * Embed one batch, recording the outcome in the run's result. Never
+     * rejects: cancellation marks the run cancelled, and any other failure
+     * counts the batch's chunks as failed.
+     */
+    private async runBatch(run: EmbeddingRun, batch: PendingChunk[]): Promise<void> {
+        try {
+            await this.embedBatch(run, batch);
+        } catch (error) {
+            if (isAbortError(error)) {
+                run.result.cancelled = true;
+                return;
+            }
+            console.error("Embedding batch failed:", error);
+            run.result.failed += batch.length;
+            run.result.failedChunkIds.push(...batch.map(item => item.chunk.id));
+        }
+    }
+
+    /**
+     * Embed one batch and save its vectors, recording the outcome in the run's result.
+     * When the provider rejects an input as too long, the batch is split in
+     * half and each half retried, until the offending chunk is on its own;
+     * that chunk is then retried at half its length, so its neighbors are
+     * still embedded and it is stored truncated rather than dropped.
+     * Rejects with an AbortError if `signal` cancels a request.
+     */
+    private async embedBatch(run: EmbeddingRun, batch: PendingChunk[]): Promise<void> {
+        const { result } = run;
+        const startedAt = Date.now();
+        const response = await run.provider.getEmbeddings(batch.map(item => item.text), { signal: run.signal });
+
+        if ((response.attempts ?? 1) > 1) {
+            result.retriedChunkIds.push(...batch.map(item => item.chunk.id));
+        }
+        if (response.status === 429 || (response.attempts ?? 1) > 1) {
+            run.concurrency.recordRateLimit();
+        } else if (!response.error) {
+            run.concurrency.recordSuccess(Date.now() - startedAt);
+        }
+
+        if (response.error) {
+            const [first] = batch;
+            if (isInputTooLong(response.error, response.status)) {
+                if (batch.length > 1) {
+                    const middle = Math.ceil(batch.length / 2);
+                    await this.embedBatch(run, batch.slice(0, middle));
+                    await this.delay(this.config.batchDelayMs);
+                    await this.embedBatch(run, batch.slice(middle));
+                    return;
+                }
+                if (first && first.text.length > MIN_TRUNCATED_CHARS) {
+                    const text = first.text.slice(0, Math.max(MIN_TRUNCATED_CHARS, Math.floor(first.text.length / 2)));
+                    console.warn(`Chunk ${first.chunk.id} is too long for the embedding model; retrying with ${text.length} characters.`);
+                    await this.delay(this.config.batchDelayMs);
+                    await this.embedBatch(run, [{ ...first, text }]);
+                    return;
+                }
+            }
+            console.error(`Embedding batch error: ${response.error}`);
+            result.failed += batch.length;
+            result.failedChunkIds.push(...batch.map(item => item.chunk.id));
+            return;
+        }
+
+        // Save each embedding
+        for (let j = 0; j < batch.length; j++) {
+            const embedding = response.embeddings[j];
+            const item = batch[j];
+            if (embedding && item && this.vectorStore.saveVector(
+                item.chunk.id,
+                embedding,
+                item.hash,
+                item.chunk.content,
+                item.chunk.filePath,
+                item.chunk.fileLink,
+                item.chunk.heading
+            )) {
+                result.processed++;
+            } else {
+                result.failed++;
+                if (item) {
+                    result.failedChunkIds.push(item.chunk.id);
+                }
+            }
+        }
+    }
+
     /**
      * Process a single file: embed its chunks and clean up stale vectors
      */
@@ -221,9 +446,10 @@ export class EmbeddingManager {
     }
 
     /**
-     * Process all files in the vault
+     * Process all files in the vault. Long runs can be stopped via `signal`
+     * (see {@link embedChunks}).
      */
-    async embedAllFiles(): Promise<EmbeddingResult> {
+    async embedAllFiles(signal?: AbortSignal): Promise<EmbeddingResult> {
         const allChunks = this.chunkManager.getAllChunks();
         
         // Get all current chunk IDs
@@ -241,7 +467,7 @@ export class EmbeddingManager {
         }
 
         // Embed all chunks
-        const result = await this.embedChunks(allChunks);
+        const result = await this.embedChunks(allChunks, signal);
 
         return result;
     }
@@ -252,6 +478,7 @@ export class EmbeddingManager {
     async deleteFileVectors(filePath: string): Promise<void> {
         const deletedCount = this.vectorStore.deleteVectorsForFile(filePath);
         this.vectorStore.deleteStoredMtime(filePath);
+        this.vectorStore.deleteFileMetadata(filePath);
         if (deletedCount > 0) {
             await this.vectorStore.save();
             console.log(`Deleted ${deletedCount} vectors for ${filePath}`);
@@ -268,11 +495,16 @@ export class EmbeddingManager {
             this.vectorStore.deleteStoredMtime(oldPath);
             this.vectorStore.setStoredMtime(newPath, storedMtime);
         }
+        const metadata = this.vectorStore.getFileMetadata(oldPath);
+        if (metadata) {
+            this.vectorStore.deleteFileMetadata(oldPath);
+            this.vectorStore.setFileMetadata(newPath, metadata);
+        }
 
         const oldIds = this.vectorStore.getChunkIdsForFile(oldPath);
         
         if (oldIds.length === 0) {
-            if (storedMtime !== undefined) {
+            if (storedMtime !== undefined || metadata) {
                 await this.vectorStore.save();
             }
             return;
@@ -282,31 +514,38 @@ export class EmbeddingManager {
         const newFileName = newPath.replace(/\.md$/, "").split("/").pop() ?? newPath;
         const newFileLink = `[[${newFileName}]]`;
 
+        // In quantized mode the vectors may only be on disk
+        const vectors = await this.vectorStore.getFullVectors(oldIds);
+
         // For each old ID, create a new entry with the updated path
+        const movedIds: string[] = [];
         for (const oldId of oldIds) {
             const stored = this.vectorStore.getVector(oldId);
-            if (stored) {
+            const vector = vectors.get(oldId);
+            if (stored && vector) {
                 // Extract the chunk index from the old ID
                 const index = oldId.substring(oldPath.length + 2); // +2 for "::"
                 const newId = `${newPath}::${index}`;
                 
                 this.vectorStore.saveVector(
                     newId, 
-                    stored.vector, 
+                    vector, 
                     stored.contentHash,
                     stored.content,
                     newPath,
                     newFileLink,
                     stored.heading ?? ""
                 );
+                movedIds.push(oldId);
             }
         }
 
-        // Delete old entries
-        this.vectorStore.deleteVectors(oldIds);
+        // Delete the moved entries; any that couldn't be read back are left
+        // for the next indexing pass to clean up and re-embed
+        this.vectorStore.deleteVectors(movedIds);
         await this.vectorStore.save();
         
-        console.log(`Renamed ${oldIds.length} vectors from ${oldPath} to ${newPath}`);
+        console.log(`Renamed ${movedIds.length} vectors from ${oldPath} to ${newPath}`);
     }
 
     /**
@@ -345,15 +584,23 @@ export class EmbeddingManager {
     }
 
     /**
-     * Get embedding vector for a query text
+     * Get embedding vector for a query text. Rejects with an AbortError if
+     * `signal` cancels the request.
+     *
+     * @param kind Which task prefix the text gets: "document" for text that
+     *   reads like a note rather than a question, such as a HyDE passage
      */
-    async getQueryEmbedding(queryText: string): Promise<number[] | null> {
+    async getQueryEmbedding(
+        queryText: string,
+        signal?: AbortSignal,
+        kind: keyof EmbeddingPrefixes = "query"
+    ): Promise<number[] | null> {
         if (!this.embeddingProvider) {
             console.error("Embedding provider not configured");
             return null;
         }
 
-        const response = await this.embeddingProvider.getEmbeddings([queryText]);
+        const response = await this.embeddingProvider.getEmbeddings([this.prefixes[kind] + queryText], { signal });
         if (response.error || response.embeddings.length === 0) {
             console.error("Failed to get query embedding:", response.error);
             return null;
@@ -373,21 +620,35 @@ export class EmbeddingManager {
      * @param options Optional filters, e.g. files to exclude from results
      * @param lexicalQueryText Text used for BM25 (defaults to queryText); pass the
      *   original keywords when queryText is a hypothetical document
+     * @param signal Cancels the query embedding call; rejects with an AbortError
+     * @param queryKind "document" when queryText is a hypothetical document, so
+     *   it is embedded with the document prefix
      */
     async search(
         queryText: string,
         limit: number = 15,
         poolSize: number = 50,
         options?: SearchOptions,
-        lexicalQueryText?: string
+        lexicalQueryText?: string,
+        signal?: AbortSignal,
+        queryKind: keyof EmbeddingPrefixes = "query"
     ): Promise<HybridSearchResult[]> {
-        const queryVector = await this.getQueryEmbedding(queryText);
-        if (!queryVector) {
-            return [];
-        }
-
         // Dense retrieval: already filtered for excluded folders + search options.
-        const vectorCandidates = this.vectorStore.search(queryVector, poolSize, options);
+        // Skipped when the stored vectors come from another model, since their
+        // scores against this query would be meaningless.
+        let vectorCandidates: SearchResult[] = [];
+        if (!this.modelMismatch) {
+            const queryVector = await this.getQueryEmbedding(queryText, signal, queryKind);
+            if (!queryVector) {
+                return [];
+            }
+            const dimension = this.vectorStore.getFingerprint()?.dimension;
+            if (dimension !== undefined && queryVector.length !== dimension) {
+                console.warn(`Query embedding has ${queryVector.length} dimensions but the index has ${dimension}; using keyword search only. Run 'Force Rebuild Index' to re-embed your notes.`);
+            } else {
+                vectorCandidates = await this.vectorStore.search(queryVector, poolSize, options);
+            }
+        }
 
         // Sparse retrieval: BM25 over the same filtered document set. Uses the
         // literal keywords, not the (possibly hypothetical) dense query text.
@@ -0,0 +1,92 @@
+/**
+ * Task prefixes for asymmetric embedding models. Many local models were
+ * trained to embed a search query and the passage that answers it
+ * differently, and expect each input to say which it is; without the
+ * prefixes their retrieval quality drops noticeably.
+ */
+
+/** "auto" picks a preset from the model name; "custom" uses the prefixes from settings. */
+export type EmbeddingProfileId = "auto" | "none" | "nomic" | "e5" | "instruction" | "custom";
+
+/** Text prepended to what is embedded, by role. Either may be empty. */
+export interface EmbeddingPrefixes {
+    /** Prepended to search queries */
+    query: string;
+    /** Prepended to note chunks (the output of `buildEmbedText`) */
+    document: string;
+}
+
+interface EmbeddingProfile extends EmbeddingPrefixes {
+    label: string;
+    /** Model name fragments this preset is picked for in "auto" */
+    models: string[];
+}
+
+/** Query instruction used by BGE v1.5, mxbai-embed-large and Arctic Embed v1. */
+const SEARCH_INSTRUCTION = "Represent this sentence for searching relevant passages: ";
+
+const PRESETS: Record<Exclude<EmbeddingProfileId, "auto" | "custom">, EmbeddingProfile> = {
+    none: { label: "None", query: "", document: "", models: [] },
+    nomic: {
+        label: "nomic-embed-text (search_query / search_document)",
+        query: "search_query: ",
+        document: "search_document: ",
+        models: ["nomic-embed-text"]
+    },
+    e5: {
+        label: "E5 (query / passage)",
+        query: "query: ",
+        document: "passage: ",
+        models: ["e5-"]
+    },
+    instruction: {
+        label: "BGE, mxbai, Arctic Embed (query instruction)",
+        query: SEARCH_INSTRUCTION,
+        document: "",
+        models: ["bge-large", "bge-base", "bge-small", "mxbai-embed-large", "snowflake-arctic-embed"]
+    }
+};
+
+/** Dropdown labels for every profile, in display order. */
+export const EMBEDDING_PROFILE_LABELS: Record<EmbeddingProfileId, string> = {
+    auto: "Automatic (from the model name)",
+    none: PRESETS.none.label,
+    nomic: PRESETS.nomic.label,
+    e5: PRESETS.e5.label,
+    instruction: PRESETS.instruction.label,
+    custom: "Custom"
+};
+
+/**
+ * The preset "auto" picks for a model, matched on the model name without any
+ * vendor prefix (so "nomic-ai/nomic-embed-text-v1.5" and
+ * "nomic-embed-text:latest" both match). Unknown models get no prefixes,
+ * which is right for hosted models such as OpenAI's.
+ */
+export function detectEmbeddingProfile(model: string): Exclude<EmbeddingProfileId, "auto" | "custom"> {
+    const name = model.trim().toLowerCase();
+    const base = name.slice(name.lastIndexOf("/") + 1);
+    for (const [id, preset] of Object.entries(PRESETS) as Array<[keyof typeof PRESETS, EmbeddingProfile]>) {
+        if (preset.models.some(fragment => base.includes(fragment))) {
+            return id;
+        }
+    }
+    return "none";
+}
+
+/**
+ * Resolve the prefixes to use for an embedding model under the selected
+ * profile.
+ * @param custom Prefixes from settings, used only by the "custom" profile
+ */
+export function resolveEmbeddingPrefixes(
+    profile: EmbeddingProfileId,
+    model: string,
+    custom: EmbeddingPrefixes
+): EmbeddingPrefixes {
+    if (profile === "custom") {
+        return { query: custom.query, document: custom.document };
+    }
+    const preset = PRESETS[profile === "auto" ? detectEmbeddingProfile(model) : profile] ?? PRESETS.none;
+    return { query: preset.query, document: preset.document };
+}
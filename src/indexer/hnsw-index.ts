@@ -0,0 +1,394 @@
+/**
+ * Hierarchical Navigable Small World graph (Malkov & Yashunin, 2016) for
+ * approximate nearest-neighbor search by cosine similarity. Each chunk is a
+ * node linked to its closest neighbors on layer 0 and, with exponentially
+ * falling probability, on higher layers; a search descends greedily from the
+ * sparse top layer and then explores layer 0 around the best matches, so it
+ * visits a few hundred nodes instead of every vector.
+ *
+ * The graph holds only chunk ids and links; vectors are looked up through
+ * the `vectorOf` callback, so the index adds no copy of them.
+ */
+
+export interface HnswOptions {
+    /** Links per node on the upper layers; layer 0 gets twice as many */
+    m: number;
+    /** Candidates considered when linking a new node; higher builds a better graph, slower */
+    efConstruction: number;
+    /** Candidates explored per search; raised to the number of results requested */
+    efSearch: number;
+}
+
+export const DEFAULT_HNSW_OPTIONS: HnswOptions = {
+    m: 16,
+    efConstruction: 100,
+    efSearch: 100
+};
+
+export interface HnswHit {
+    id: string;
+    score: number;
+}
+
+/** The graph in a compact form for storage; see {@link HnswIndex.serialize}. */
+export interface HnswGraphData {
+    ids: string[];
+    /**
+     * Per node, in `ids` order: its level, then for each layer from 0 up,
+     * the number of links followed by the linked nodes' positions in `ids`
+     */
+    links: Int32Array;
+    /** Position of the entry point in `ids`, or -1 when empty */
+    entryPoint: number;
+}
+
+interface HnswNode {
+    level: number;
+    /** Linked node ids, per layer */
+    neighbors: string[][];
+}
+
+/** A vector with its norm, so cosine similarity costs one dot product. */
+interface NormedVector {
+    vector: ArrayLike<number>;
+    norm: number;
+}
+
+function withNorm(vector: ArrayLike<number>): NormedVector {
+    let sum = 0;
+    for (let i = 0; i < vector.length; i++) {
+        const value = vector[i] ?? 0;
+        sum += value * value;
+    }
+    return { vector, norm: Math.sqrt(sum) };
+}
+
+function cosine(a: NormedVector, b: NormedVector): number {
+    const denominator = a.norm * b.norm;
+    if (denominator === 0) {
+        return 0;
+    }
+    let dot = 0;
+    for (let i = 0; i < a.vector.length; i++) {
+        dot += (a.vector[i] ?? 0) * (b.vector[i] ?? 0);
+    }
+    return dot / denominator;
+}
+
+/** Links may exceed their limit by this factor before they are pruned, so pruning runs less often. */
+const PRUNE_SLACK = 1.25;
+
+/** Insert into a list kept sorted by score, descending. */
+function insertSorted(list: HnswHit[], hit: HnswHit): void {
+    let index = list.length;
+    while (index > 0 && (list[index - 1]?.score ?? Infinity) < hit.score) index--;
+    list.splice(index, 0, hit);
+}
+
+export class HnswIndex {
+    private nodes: Map<string, HnswNode> = new Map();
+    /** Norms of the nodes' vectors, computed on first use */
+    private norms: Map<string, number> = new Map();
+    private entryPoint: string | null = null;
+    private maxLevel = -1;
+    private options: HnswOptions;
+    /** Normalization factor for the random level, 1 / ln(m) */
+    private levelFactor: number;
+
+    constructor(
+        private vectorOf: (id: string) => ArrayLike<number> | undefined,
+        options?: Partial<HnswOptions>
+    ) {
+        this.options = { ...DEFAULT_HNSW_OPTIONS, ...options };
+        this.levelFactor = 1 / Math.log(this.options.m);
+    }
+
+    get size(): number {
+        return this.nodes.size;
+    }
+
+    has(id: string): boolean {
+        return this.nodes.has(id);
+    }
+
+    /** Add a node, or relink it if its vector changed. */
+    insert(id: string): void {
+        if (this.nodes.has(id)) {
+            this.remove(id);
+        }
+        const vector = this.normedVectorOf(id);
+        if (!vector) {
+            return;
+        }
+
+        const level = Math.floor(-Math.log(1 - Math.random()) * this.levelFactor);
+        const node: HnswNode = { level, neighbors: Array.from({ length: level + 1 }, () => []) };
+        const entryPoint = this.entryPoint;
+        this.nodes.set(id, node);
+        if (entryPoint === null) {
+            this.entryPoint = id;
+            this.maxLevel = level;
+            return;
+        }
+
+        let entries = [entryPoint];
+        for (let layer = this.maxLevel; layer > level; layer--) {
+            entries = this.searchLayer(vector, entries, 1, layer).slice(0, 1).map(hit => hit.id);
+        }
+        for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+            const candidates = this.searchLayer(vector, entries, this.options.efConstruction, layer)
+                .filter(hit => hit.id !== id);
+            const neighbors = this.selectNeighbors(candidates, this.maxLinks(layer));
+            node.neighbors[layer] = neighbors;
+            for (const neighborId of neighbors) {
+                this.link(neighborId, id, layer);
+            }
+            entries = candidates.map(hit => hit.id);
+        }
+
+        if (level > this.maxLevel) {
+            this.entryPoint = id;
+            this.maxLevel = level;
+        }
+    }
+
+    /**
+     * Remove a node. Its neighbors are relinked among themselves so the
+     * graph stays connected around the gap.
+     */
+    remove(id: string): void {
+        const node = this.nodes.get(id);
+        if (!node) {
+            return;
+        }
+        this.nodes.delete(id);
+        this.norms.delete(id);
+
+        for (let layer = 0; layer <= node.level; layer++) {
+            const orphans = node.neighbors[layer] ?? [];
+            for (const neighborId of orphans) {
+                const neighbor = this.nodes.get(neighborId);
+                const vector = this.normedVectorOf(neighborId);
+                if (!neighbor || !vector) continue;
+                const pool = new Set([...neighbor.neighbors[layer] ?? [], ...orphans]);
+                pool.delete(id);
+                pool.delete(neighborId);
+                neighbor.neighbors[layer] = this.selectNeighbors(this.scoreAll(vector, pool), this.maxLinks(layer));
+            }
+        }
+
+        if (this.entryPoint === id) {
+            this.entryPoint = null;
+            this.maxLevel = -1;
+            for (const [candidateId, candidate] of this.nodes) {
+                if (candidate.level > this.maxLevel) {
+                    this.entryPoint = candidateId;
+                    this.maxLevel = candidate.level;
+                }
+            }
+        }
+    }
+
+    /**
+     * The approximately `k` most similar nodes to `query` that pass
+     * `filter`. Filtered-out nodes are still traversed, and the search is
+     * widened while too few pass, so the result may hold fewer than `k`
+     * hits only when the filter rejects most of the graph.
+     */
+    search(queryVector: ArrayLike<number>, k: number, filter?: (id: string) => boolean): HnswHit[] {
+        if (this.entryPoint === null) {
+            return [];
+        }
+        const query = withNorm(queryVector);
+
+        let entries = [this.entryPoint];
+        for (let layer = this.maxLevel; layer > 0; layer--) {
+            entries = this.searchLayer(query, entries, 1, layer).slice(0, 1).map(hit => hit.id);
+        }
+
+        let ef = Math.max(this.options.efSearch, k);
+        for (let attempt = 0; ; attempt++) {
+            const hits = this.searchLayer(query, entries, ef, 0);
+            const passing = filter ? hits.filter(hit => filter(hit.id)) : hits;
+            if (passing.length >= k || hits.length < ef || attempt >= 3) {
+                return passing.slice(0, k);
+            }
+            ef *= 4;
+        }
+    }
+
+    /** The graph in a compact form, e.g. to store it. */
+    serialize(): HnswGraphData {
+        const ids = [...this.nodes.keys()];
+        const positions = new Map(ids.map((id, index) => [id, index]));
+        const links: number[] = [];
+        for (const node of this.nodes.values()) {
+            links.push(node.level);
+            for (let layer = 0; layer <= node.level; layer++) {
+                const neighbors = (node.neighbors[layer] ?? [])
+                    .map(id => positions.get(id))
+                    .filter((position): position is number => position !== undefined);
+                links.push(neighbors.length, ...neighbors);
+            }
+        }
+        return {
+            ids,
+            links: Int32Array.from(links),
+            entryPoint: this.entryPoint === null ? -1 : positions.get(this.entryPoint) ?? -1
+        };
+    }
+
+    /**
+     * Rebuild an index from {@link serialize} output.
+     * @returns null if the data is inconsistent
+     */
+    static deserialize(
+        data: HnswGraphData,
+        vectorOf: (id: string) => ArrayLike<number> | undefined,
+        options?: Partial<HnswOptions>
+    ): HnswIndex | null {
+        const index = new HnswIndex(vectorOf, options);
+        const { ids, links } = data;
+        let offset = 0;
+        const read = () => {
+            if (offset >= links.length) throw new RangeError("Truncated HNSW graph");
+            return links[offset++] ?? 0;
+        };
+
+        try {
+            for (const id of ids) {
+                const level = read();
+                const neighbors: string[][] = [];
+                for (let layer = 0; layer <= level; layer++) {
+                    const count = read();
+                    const layerNeighbors: string[] = [];
+                    for (let i = 0; i < count; i++) {
+                        const neighborId = ids[read()];
+                        if (neighborId !== undefined) layerNeighbors.push(neighborId);
+                    }
+                    neighbors.push(layerNeighbors);
+                }
+                index.nodes.set(id, { level, neighbors });
+            }
+        } catch {
+            return null;
+        }
+
+        const entryPoint = ids[data.entryPoint];
+        const entryNode = entryPoint === undefined ? undefined : index.nodes.get(entryPoint);
+        if (entryPoint !== undefined && entryNode) {
+            index.entryPoint = entryPoint;
+            index.maxLevel = entryNode.level;
+        } else if (ids.length > 0) {
+            return null;
+        }
+        return index;
+    }
+
+    private maxLinks(layer: number): number {
+        return layer === 0 ? this.options.m * 2 : this.options.m;
+    }
+
+    /** A node's vector with its (cached) norm; undefined for unknown or removed nodes. */
+    private normedVectorOf(id: string): NormedVector | undefined {
+        const vector = this.vectorOf(id);
+        if (!vector) {
+            return undefined;
+        }
+        let norm = this.norms.get(id);
+        if (norm === undefined) {
+            norm = withNorm(vector).norm;
+            this.norms.set(id, norm);
+        }
+        return { vector, norm };
+    }
+
+    private scoreAll(query: NormedVector, ids: Iterable<string>): HnswHit[] {
+        const hits: HnswHit[] = [];
+        for (const id of ids) {
+            const vector = this.nodes.has(id) ? this.normedVectorOf(id) : undefined;
+            if (vector) {
+                insertSorted(hits, { id, score: cosine(query, vector) });
+            }
+        }
+        return hits;
+    }
+
+    /**
+     * Best-first search of one layer from the given entry nodes, returning
+     * up to `ef` nodes by descending similarity. Links to nodes that were
+     * removed are skipped.
+     */
+    private searchLayer(query: NormedVector, entryIds: string[], ef: number, layer: number): HnswHit[] {
+        const visited = new Set(entryIds);
+        const results = this.scoreAll(query, entryIds);
+        const candidates = [...results];
+
+        while (candidates.length > 0) {
+            const current = candidates.shift();
+            const worst = results[results.length - 1];
+            if (!current || (results.length >= ef && worst && current.score < worst.score)) {
+                break;
+            }
+
+            for (const neighborId of this.nodes.get(current.id)?.neighbors[layer] ?? []) {
+                if (visited.has(neighborId)) continue;
+                visited.add(neighborId);
+                const vector = this.nodes.has(neighborId) ? this.normedVectorOf(neighborId) : undefined;
+                if (!vector) continue;
+
+                const hit = { id: neighborId, score: cosine(query, vector) };
+                const currentWorst = results[results.length - 1];
+                if (results.length < ef || (currentWorst && hit.score > currentWorst.score)) {
+                    insertSorted(candidates, hit);
+                    insertSorted(results, hit);
+                    if (results.length > ef) results.pop();
+                }
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Pick up to `count` links from candidates sorted by similarity, using
+     * the paper's heuristic: a candidate is skipped if it is closer to an
+     * already picked neighbor than to the node, which keeps links pointing in
+     * different directions. Skipped candidates fill any remaining places.
+     */
+    private selectNeighbors(candidates: HnswHit[], count: number): string[] {
+        const picked: Array<{ id: string; vector: NormedVector }> = [];
+        const skipped: string[] = [];
+        for (const candidate of candidates) {
+            if (picked.length >= count) break;
+            const vector = this.normedVectorOf(candidate.id);
+            if (!vector) continue;
+            const redundant = picked.some(other => cosine(vector, other.vector) > candidate.score);
+            if (redundant) {
+                skipped.push(candidate.id);
+            } else {
+                picked.push({ id: candidate.id, vector });
+            }
+        }
+        return [...picked.map(entry => entry.id), ...skipped].slice(0, count);
+    }
+
+    /** Add a link from `fromId` to `toId`, pruning `fromId`'s links if that overflows them. */
+    private link(fromId: string, toId: string, layer: number): void {
+        const node = this.nodes.get(fromId);
+        if (!node || layer > node.level) {
+            return;
+        }
+        const neighbors = node.neighbors[layer] ?? [];
+        if (!neighbors.includes(toId)) {
+            neighbors.push(toId);
+        }
+        node.neighbors[layer] = neighbors;
+
+        if (neighbors.length > this.maxLinks(layer) * PRUNE_SLACK) {
+            const vector = this.normedVectorOf(fromId);
+            if (vector) {
+                node.neighbors[layer] = this.selectNeighbors(this.scoreAll(vector, neighbors), this.maxLinks(layer));
+            }
+        }
+    }
+}
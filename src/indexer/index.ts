@@ -5,13 +5,21 @@ export { RecursiveCharacterTextSplitter, MarkdownTextSplitter, DocumentSplitter,
 export type { TextSplitterConfig, ChunkingStrategy, SplitChunk } from "./text-splitter";
 
 export { ChunkManager } from "./chunk-manager";
-export type { Chunk } from "./chunk-manager";
+export type { Chunk, NoteMetadata } from "./chunk-manager";
 
 export { VectorStore } from "./vector-store";
-export type { StoredVector, VectorStoreData, SearchResult, CachedChunk } from "./vector-store";
+export type { StoredVector, VectorStoreData, SearchResult, CachedChunk, EmbeddingFingerprint, QuantizationReport } from "./vector-store";
 
 export { EmbeddingManager } from "./embedding-manager";
 export type { EmbeddingManagerConfig, EmbeddingResult, HybridStrategy, HybridSearchResult } from "./embedding-manager";
 
+export { AdaptiveConcurrency } from "./adaptive-concurrency";
+
+export { HnswIndex, DEFAULT_HNSW_OPTIONS } from "./hnsw-index";
+export type { HnswOptions, HnswHit, HnswGraphData } from "./hnsw-index";
+
+export { EMBEDDING_PROFILE_LABELS, detectEmbeddingProfile, resolveEmbeddingPrefixes } from "./embedding-profiles";
+export type { EmbeddingProfileId, EmbeddingPrefixes } from "./embedding-profiles";
+
 export { LexicalIndex, tokenize } from "./lexical-index";
 export type { LexicalDocument, LexicalHit } from "./lexical-index";
@@ -0,0 +1,121 @@
+/**
+ * Per-dimension int8 scalar quantization of embedding vectors. Each
+ * dimension's observed range is split into 256 steps, so a vector takes one
+ * byte per dimension instead of four. Scores computed from the codes are
+ * close to, but not exactly, the float scores, so callers rescore the best
+ * candidates with the original vectors.
+ */
+
+/** Range of each dimension: value = offset + scale * (code + 128). */
+export interface ScalarQuantizer {
+    offset: Float32Array;
+    scale: Float32Array;
+}
+
+/** A quantized vector, with the norm of the original for cosine scoring. */
+export interface QuantizedVector {
+    codes: Int8Array;
+    norm: number;
+}
+
+/** A query with the quantizer folded in, so scoring a code is a single dot product. */
+export interface PreparedQuery {
+    /** query[d] * scale[d] */
+    weights: Float32Array;
+    /** Dot product of the query with the vector whose codes are all -128 */
+    base: number;
+    norm: number;
+}
+
+/** The quantizer as stored in JSON. */
+export interface QuantizerData {
+    offset: number[];
+    scale: number[];
+}
+
+/**
+ * Fit a quantizer to the range of every dimension across `vectors`. Values
+ * outside the range of the fitted vectors are clamped when quantized.
+ */
+export function fitQuantizer(vectors: Iterable<ArrayLike<number>>, dimension: number): ScalarQuantizer {
+    const min = new Float32Array(dimension).fill(Infinity);
+    const max = new Float32Array(dimension).fill(-Infinity);
+    for (const vector of vectors) {
+        for (let d = 0; d < dimension; d++) {
+            const value = vector[d] ?? 0;
+            if (value < (min[d] ?? 0)) min[d] = value;
+            if (value > (max[d] ?? 0)) max[d] = value;
+        }
+    }
+
+    const offset = new Float32Array(dimension);
+    const scale = new Float32Array(dimension);
+    for (let d = 0; d < dimension; d++) {
+        const low = Number.isFinite(min[d]) ? min[d] ?? 0 : 0;
+        const high = Number.isFinite(max[d]) ? max[d] ?? 0 : 0;
+        offset[d] = low;
+        // A constant dimension still needs a non-zero step
+        scale[d] = high > low ? (high - low) / 255 : 1;
+    }
+    return { offset, scale };
+}
+
+export function quantize(quantizer: ScalarQuantizer, vector: ArrayLike<number>): QuantizedVector {
+    const dimension = quantizer.offset.length;
+    const codes = new Int8Array(dimension);
+    let norm = 0;
+    for (let d = 0; d < dimension; d++) {
+        const value = vector[d] ?? 0;
+        norm += value * value;
+        const step = Math.round((value - (quantizer.offset[d] ?? 0)) / (quantizer.scale[d] ?? 1));
+        codes[d] = Math.max(0, Math.min(255, step)) - 128;
+    }
+    return { codes, norm: Math.sqrt(norm) };
+}
+
+/** The approximate vector a set of codes stands for. */
+export function dequantize(quantizer: ScalarQuantizer, codes: Int8Array): Float32Array {
+    const vector = new Float32Array(codes.length);
+    for (let d = 0; d < codes.length; d++) {
+        vector[d] = (quantizer.offset[d] ?? 0) + (quantizer.scale[d] ?? 1) * ((codes[d] ?? 0) + 128);
+    }
+    return vector;
+}
+
+export function prepareQuery(quantizer: ScalarQuantizer, query: ArrayLike<number>): PreparedQuery {
+    const dimension = quantizer.offset.length;
+    const weights = new Float32Array(dimension);
+    let base = 0;
+    let norm = 0;
+    for (let d = 0; d < dimension; d++) {
+        const value = query[d] ?? 0;
+        const scale = quantizer.scale[d] ?? 1;
+        weights[d] = value * scale;
+        base += value * ((quantizer.offset[d] ?? 0) + 128 * scale);
+        norm += value * value;
+    }
+    return { weights, base, norm: Math.sqrt(norm) };
+}
+
+/** Approximate cosine similarity between a prepared query and a quantized vector. */
+export function approximateCosine(query: PreparedQuery, vector: QuantizedVector): number {
+    const denominator = query.norm * vector.norm;
+    if (denominator === 0) {
+        return 0;
+    }
+    let dot = query.base;
+    const { weights } = query;
+    const { codes } = vector;
+    for (let d = 0; d < codes.length; d++) {
+        dot += (weights[d] ?? 0) * (codes[d] ?? 0);
+    }
+    return dot / denominator;
+}
+
+export function serializeQuantizer(quantizer: ScalarQuantizer): QuantizerData {
+    return { offset: Array.from(quantizer.offset), scale: Array.from(quantizer.scale) };
+}
+
+export function deserializeQuantizer(data: QuantizerData): ScalarQuantizer {
+    return { offset: Float32Array.from(data.offset), scale: Float32Array.from(data.scale) };
+}
@@ -0,0 +1,68 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "obsidian";
+import { fnv1a } from "../utils/hash";
+import type { NoteMetadata } from "./chunk-manager";
+import type { EmbeddingFingerprint, StoredVector } from "./vector-store";
+
+/**
+ * Records of the append-only journal the vector store writes between
+ * snapshots. Each record states the new value outright (a vector, a deletion,
+ * an mtime), so replaying a record that the snapshot already contains
+ * changes nothing, and a journal can be replayed over any older snapshot.
+ *
+ * On disk every record is one line: a checksum of the JSON, a space, and the
+ * JSON. A line cut short by a crash or a full disk fails its checksum and is
+ * skipped on replay.
+ */
+export type JournalRecord =
+    | { op: "put"; chunkId: string; vector: Float32Array; entry: Omit<StoredVector, "vector"> }
+    | { op: "delete"; chunkIds: string[] }
+    /** `mtime` null removes the file's stored mtime */
+    | { op: "mtime"; filePath: string; mtime: number | null }
+    /** `metadata` null removes the file's stored metadata */
+    | { op: "metadata"; filePath: string; metadata: NoteMetadata | null }
+    | { op: "fingerprint"; fingerprint: EmbeddingFingerprint | null }
+    | { op: "clear" };
+
+/** A record as serialized: vectors are base64 of their Float32 bytes. */
+type JournalLine =
+    | Exclude<JournalRecord, { op: "put" }>
+    | { op: "put"; chunkId: string; vector: string; entry: Omit<StoredVector, "vector"> };
+
+/** Serialize a record as one journal line, newline included. */
+export function encodeRecord(record: JournalRecord): string {
+    const line: JournalLine = record.op === "put"
+        ? {
+            ...record,
+            vector: arrayBufferToBase64(record.vector.buffer.slice(record.vector.byteOffset, record.vector.byteOffset + record.vector.byteLength))
+        }
+        : record;
+    const json = JSON.stringify(line);
+    return `${fnv1a(json).toString(16)} ${json}\n`;
+}
+
+/**
+ * Parse a journal's text.
+ * @returns The intact records in order, and how many lines were damaged
+ */
+export function decodeJournal(text: string): { records: JournalRecord[]; damaged: number } {
+    const records: JournalRecord[] = [];
+    let damaged = 0;
+    for (const line of text.split("\n")) {
+        if (!line.trim()) continue;
+        const separator = line.indexOf(" ");
+        const json = line.slice(separator + 1);
+        if (separator === -1 || parseInt(line.slice(0, separator), 16) !== fnv1a(json)) {
+            damaged++;
+            continue;
+        }
+        try {
+            const parsed = JSON.parse(json) as JournalLine;
+            records.push(parsed.op === "put"
+                ? { ...parsed, vector: new Float32Array(base64ToArrayBuffer(parsed.vector)) }
+                : parsed);
+        } catch {
+            damaged++;
+        }
+    }
+    return { records, damaged };
+}
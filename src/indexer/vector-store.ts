@@ -1,5 +1,21 @@
 import { App, normalizePath, Plugin } from "obsidian";
 import { buildEmbedText } from "./text-splitter";
+import { HnswHit, HnswIndex } from "./hnsw-index";
+import {
+    approximateCosine,
+    dequantize,
+    deserializeQuantizer,
+    fitQuantizer,
+    prepareQuery,
+    quantize,
+    QuantizedVector,
+    QuantizerData,
+    ScalarQuantizer,
+    serializeQuantizer
+} from "./quantization";
+import type { NoteMetadata } from "./chunk-manager";
+import { decodeJournal, encodeRecord, JournalRecord } from "./vector-journal";
+import { checksumBytes } from "../utils/hash";
 
 /**
  * Options for filtering search results
@@ -17,8 +33,11 @@ export interface SearchOptions {
  * Stored vector data for a chunk
  */
 export interface StoredVector {
-    /** The embedding vector */
-    vector: number[];
+    /**
+     * The embedding vector. Absent in quantized mode once the vector is on
+     * disk; {@link VectorStore.getFullVectors} reads it back.
+     */
+    vector?: Float32Array;
     /** Hash of the embedded text to detect changes */
     contentHash: string;
     /** The actual text content of the chunk (display/citation) */
@@ -62,21 +81,196 @@ export interface CachedChunk {
 }
 
 /**
- * Data structure for the vector store JSON file
+ * Identifies the embedding model that produced the stored vectors. Vectors
+ * from different models live in different spaces (and often have different
+ * lengths), so comparing a query against them gives meaningless scores.
+ */
+export interface EmbeddingFingerprint {
+    /** Embedding provider id, e.g. "openai" */
+    provider: string;
+    /** Model name as configured for that provider; "" if unknown (written by an older version) */
+    model: string;
+    /** Length of every stored vector */
+    dimension: number;
+}
+
+/**
+ * Data structure of the single-file JSON store (`embeddings.json`) used
+ * before the sharded format; only read to migrate it.
  */
 export interface VectorStoreData {
     version: number;
-    vectors: Record<string, StoredVector>;
+    vectors: Record<string, Omit<StoredVector, "vector"> & { vector: number[] }>;
     /** Last known mtime (ms) per file path at the time it was chunked, used to skip unchanged files on startup */
     fileMtimes?: Record<string, number>;
+    /** Model that produced `vectors`; absent in files written by older versions */
+    fingerprint?: EmbeddingFingerprint;
+}
+
+/** Store-wide data, kept in the manifest of the sharded store. */
+interface VectorStoreManifest {
+    version: number;
+    /** Model that produced the vectors; absent while the store is empty */
+    fingerprint?: EmbeddingFingerprint;
+    /** Ranges for quantized mode, once fitted */
+    quantizer?: QuantizerData;
+}
+
+/**
+ * How quantized search compares with full precision on a sample of the
+ * stored vectors, each used as a query against the rest.
+ */
+export interface QuantizationReport {
+    /** Number of sample queries */
+    queries: number;
+    /** Results per query the recall is measured at */
+    k: number;
+    /** Candidates taken from the quantized scan for exact rescoring */
+    candidates: number;
+    /** Share of the full-precision top k found by the quantized scan alone (0-1) */
+    quantizedRecall: number;
+    /** Share found after rescoring the candidates with full-precision vectors (0-1), as search does */
+    rescoredRecall: number;
+    /** Memory the vectors take at full precision, in bytes */
+    fullPrecisionBytes: number;
+    /** Memory the vectors take quantized, in bytes */
+    quantizedBytes: number;
+}
+
+/**
+ * Metadata sidecar of one shard. Row `i` of the shard's binary file is the
+ * vector of `entries[i]`.
+ */
+interface VectorShardData {
+    version: number;
+    /** Floats per row of the binary file */
+    dimension: number;
+    entries: Array<Omit<StoredVector, "vector"> & { chunkId: string }>;
+    /** Stored mtimes of the files in this shard */
+    fileMtimes: Record<string, number>;
+    /** Note metadata of the files in this shard; absent in older shards */
+    fileMetadata?: Record<string, NoteMetadata>;
+    /** {@link checksumBytes} of the binary file; absent in older shards */
+    checksum?: number;
+}
+
+/** What a snapshot writes to one shard. */
+interface ShardContents {
+    chunkIds: string[];
+    fileMtimes: Record<string, number>;
+    fileMetadata: Record<string, NoteMetadata>;
+}
+
+/** Everything a snapshot writes, taken from the store in one synchronous pass. */
+interface StoreSnapshot {
+    shards: Set<number>;
+    contents: Map<number, ShardContents>;
+    writeManifest: boolean;
+    writeGraph: boolean;
+}
+
+/**
+ * Sidecar of the stored search graph; its links are in `hnsw.bin`. The
+ * content hashes tell which chunks changed after the graph was saved.
+ */
+interface SearchGraphData {
+    version: number;
+    dimension: number;
+    ids: string[];
+    hashes: string[];
+    entryPoint: number;
+    /** Number of Int32 values in the binary file */
+    linkCount: number;
 }
 
 const VECTOR_STORE_VERSION = 1;
 const VECTOR_STORE_FILE = "embeddings.json";
 
+const SHARDED_STORE_VERSION = 2;
+const SHARDED_STORE_DIR = "vectors";
+const MANIFEST_FILE = "manifest.json";
+/**
+ * Files are spread over this many shards by a hash of their path, so
+ * re-embedding one note rewrites about 1/128 of the index. Changing it
+ * moves files between shards, so it is part of the format version.
+ */
+const SHARD_COUNT = 128;
+/** Suffixes of a snapshot file's previous version and of the version being written. */
+const BACKUP_SUFFIX = ".bak";
+const TEMP_SUFFIX = ".tmp";
+
+/** Mutations since the last snapshot; see {@link VectorStore.save}. */
+const JOURNAL_FILE = "journal.jsonl";
+/** Journal of a snapshot in progress, kept until the snapshot is complete */
+const PREVIOUS_JOURNAL_FILE = "journal.prev.jsonl";
+/**
+ * Journal of the last complete snapshot: the changes that turned the shard
+ * backups it made into the current shards, replayed over a restored backup.
+ */
+const JOURNAL_BACKUP_FILE = "journal.bak.jsonl";
+/** A snapshot is written once the journal grows past this size... */
+const JOURNAL_COMPACT_BYTES = 32 * 1024 * 1024;
+/** ...or this long after the last snapshot if anything changed. */
+const COMPACT_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Quantized search rescores this many times the requested number of results
+ * with full-precision vectors.
+ */
+const RESCORE_FACTOR = 4;
+/** Vectors needed before quantization ranges are fitted; until then vectors stay at full precision. */
+const MIN_QUANTIZER_SAMPLE = 500;
+/** Full-precision vectors read back from disk that are kept for later searches. */
+const FLOAT_CACHE_SIZE = 2048;
+/** Vectors decoded from their codes that the search graph keeps for its distance computations. */
+const GRAPH_VECTOR_CACHE_SIZE = 4096;
+/** Reads of a shard's binary file before giving up on one that keeps being rewritten. */
+const SHARD_READ_ATTEMPTS = 3;
+
+const SEARCH_GRAPH_VERSION = 1;
+const SEARCH_GRAPH_FILE = "hnsw";
+/** Nodes added to the search graph between yields to the UI while it is built. */
+const GRAPH_BUILD_BATCH = 100;
+/**
+ * The stored graph is rewritten once this many nodes, or 1% of the graph if
+ * more, changed since it was last written. Changes in between are repaired
+ * from the content hashes on the next load.
+ */
+const MIN_GRAPH_CHANGES = 50;
+/**
+ * The graph is only dropped once the index shrinks below this share of the
+ * threshold, so deleting a few notes around it doesn't cost a rebuild.
+ */
+const GRAPH_DROP_RATIO = 0.9;
+
+/** The path of the note a chunk id ("path::index") belongs to. */
+function filePathOfChunk(chunkId: string): string {
+    const separator = chunkId.lastIndexOf("::");
+    return separator === -1 ? chunkId : chunkId.slice(0, separator);
+}
+
+/** The shard a file's vectors and mtime are stored in (djb2 hash of the path). */
+function shardOf(filePath: string): number {
+    let hash = 5381;
+    for (let i = 0; i < filePath.length; i++) {
+        hash = ((hash << 5) + hash + filePath.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0) % SHARD_COUNT;
+}
+
 /**
  * VectorStore manages persistent storage of embedding vectors.
- * Uses Obsidian's plugin data API for persistence.
+ *
+ * On disk the vectors live in a `vectors` folder next to the plugin: a small
+ * manifest, and per shard a binary file of Float32 rows (in the platform's
+ * byte order, little-endian everywhere Obsidian runs) plus a JSON sidecar
+ * with each row's chunk metadata and a checksum of the binary file. This
+ * snapshot is only rewritten now and then, a changed shard at a time; in
+ * between, every change is appended to a journal. Snapshot files are
+ * replaced by writing a temporary file and renaming it, keeping the previous
+ * version as a backup, so a crash or a full disk never leaves the index
+ * without an intact copy of a shard. Loading replays the journal over the
+ * snapshot, falling back to a shard's backup if the current file is damaged.
  */
 export class VectorStore {
     private plugin: Plugin;
@@ -84,11 +278,64 @@ export class VectorStore {
     private vectors: Map<string, StoredVector> = new Map();
     /** File path -> mtime (ms) recorded when that file was last chunked */
     private fileMtimes: Map<string, number> = new Map();
-    private isDirty: boolean = false;
+    /** File path -> tags, properties, links etc. captured when that file was last chunked */
+    private fileMetadata: Map<string, NoteMetadata> = new Map();
+    /** Shards with changes not yet written to disk */
+    private dirtyShards: Set<number> = new Set();
+    /** Whether the manifest (fingerprint) has changes not yet written */
+    private manifestDirty: boolean = false;
+    /** Tail of the chain of pending snapshot writes; see {@link compact}. */
+    private saveQueue: Promise<void> = Promise.resolve();
+    /** Tail of the chain of journal appends and rotations */
+    private journalQueue: Promise<void> = Promise.resolve();
+    /** Journal lines not yet appended to the file */
+    private journalBuffer: string[] = [];
+    /** Size of the current journal file, in characters */
+    private journalBytes: number = 0;
+    /** Whether the last append failed, possibly leaving part of a line behind */
+    private journalTorn: boolean = false;
+    /** Set while replaying the journal, so replayed changes aren't journaled again */
+    private replaying: boolean = false;
+    private lastCompaction: number = 0;
+    private compacting: boolean = false;
+    /** Whether a snapshot should be written on the next save regardless of the journal's size */
+    private compactionRequested: boolean = false;
     /** Folders to exclude from search results */
     private excludedFolders: string[] = [];
     /** Monotonic counter bumped on every mutation, used to invalidate derived indexes (e.g. BM25) */
     private mutationVersion: number = 0;
+    /** Model that produced the stored vectors; null while the store is empty */
+    private fingerprint: EmbeddingFingerprint | null = null;
+    /** Embedding model the current settings use, recorded when a new index is started */
+    private activeModel: { provider: string; model: string } = { provider: "", model: "" };
+    /** Whether vectors already on disk are kept in memory only as int8 codes */
+    private quantizationEnabled: boolean = false;
+    /** Per-dimension ranges for quantized mode; null until fitted */
+    private quantizer: ScalarQuantizer | null = null;
+    /** Codes of the vectors whose full-precision values were released from memory */
+    private codes: Map<string, QuantizedVector> = new Map();
+    /** Row of each vector in its shard's binary file, as last written or loaded */
+    private diskRows: Map<string, number> = new Map();
+    /**
+     * Bumped when a shard's binary file starts being replaced and again once
+     * {@link diskRows} match the new file; odd while the two may disagree
+     */
+    private shardGenerations: Map<number, number> = new Map();
+    /** Recently read full-precision vectors, oldest first */
+    private floatCache: Map<string, Float32Array> = new Map();
+    /** Vectors the graph decoded from their codes, least recently used first */
+    private graphVectorCache: Map<string, Float32Array> = new Map();
+    /** Index size from which search uses the graph; 0 to always scan every vector */
+    private graphThreshold: number = 0;
+    /** Approximate nearest-neighbor graph over the vectors; null below the threshold */
+    private graph: HnswIndex | null = null;
+    /** Whether the graph holds every vector; until then search scans */
+    private graphReady: boolean = false;
+    private graphBuilding: boolean = false;
+    /** Nodes inserted or removed since the graph was last written */
+    private graphChanges: number = 0;
+    /** Whether the stored graph must be rewritten (or removed) on the next save */
+    private graphDirty: boolean = false;
 
     constructor(plugin: Plugin) {
         this.plugin = plugin;
@@ -121,41 +368,354 @@ export class VectorStore {
     }
 
     /**
-     * Get the normalized path to the dedicated vector store file.
-     * Stored alongside the plugin (not inside data.json) so that
-     * embeddings don't get re-serialized on every settings/chat save.
+     * Get the normalized path of a file in the plugin folder. The store is
+     * kept there (not inside data.json) so that embeddings don't get
+     * re-serialized on every settings/chat save.
      */
-    private getVectorFilePath(): string {
+    private getPluginFilePath(name: string): string {
         const pluginDir = this.plugin.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
-        return normalizePath(`${pluginDir}/${VECTOR_STORE_FILE}`);
+        return normalizePath(`${pluginDir}/${name}`);
+    }
+
+    private getStoreFilePath(name: string): string {
+        return this.getPluginFilePath(`${SHARDED_STORE_DIR}/${name}`);
+    }
+
+    private getShardPaths(shard: number): { vectors: string; metadata: string } {
+        const name = `shard-${String(shard).padStart(3, "0")}`;
+        return { vectors: this.getStoreFilePath(`${name}.bin`), metadata: this.getStoreFilePath(`${name}.json`) };
+    }
+
+    /** Mark the shard holding a file's data as needing a write. */
+    private markDirty(filePath: string): void {
+        this.dirtyShards.add(shardOf(filePath));
+    }
+
+    /** Mark every shard as needing a write, e.g. after a migration or a clear. */
+    private markAllDirty(): void {
+        for (let shard = 0; shard < SHARD_COUNT; shard++) {
+            this.dirtyShards.add(shard);
+        }
+        this.manifestDirty = true;
     }
 
     /**
      * Load vector data from disk.
-     * Reads from the dedicated vector store file. If that file doesn't exist yet,
-     * falls back to migrating vectors that may have been stored in data.json
-     * by older versions of this plugin.
+     * Reads the sharded store. If there is none yet, migrates the
+     * single-file `embeddings.json` of earlier versions, or failing that,
+     * vectors that older versions still kept in data.json.
      */
     async load(): Promise<void> {
         try {
-            const path = this.getVectorFilePath();
-            if (await this.app.vault.adapter.exists(path)) {
-                const raw = await this.app.vault.adapter.read(path);
-                const storeData = JSON.parse(raw) as VectorStoreData;
-                if (storeData.version === VECTOR_STORE_VERSION && storeData.vectors) {
-                    this.vectors = new Map(Object.entries(storeData.vectors));
-                    this.fileMtimes = new Map(Object.entries(storeData.fileMtimes ?? {}));
-                    this.mutationVersion++;
-                    console.log(`Loaded ${this.vectors.size} vectors from ${VECTOR_STORE_FILE}`);
+            if (await this.hasShardedStore()) {
+                const restoredShards = await this.loadShards();
+                await this.replayJournal(restoredShards);
+                await this.loadGraph();
+                this.updateGraph();
+                if (this.compactionRequested) {
+                    void this.compact();
                 }
                 return;
             }
 
+            if (await this.app.vault.adapter.exists(this.getPluginFilePath(VECTOR_STORE_FILE))) {
+                await this.migrateJsonStore();
+                return;
+            }
+
             await this.migrateLegacyVectors();
         } catch (error) {
             console.error("Failed to load vector store:", error);
-            this.vectors = new Map();
+            // Nothing half loaded is kept, and nothing is left marked for
+            // writing, so the files stay as they are for the next load
+            this.resetMemory();
+            this.dirtyShards = new Set();
+            this.manifestDirty = false;
+            this.graphDirty = false;
+            this.graphChanges = 0;
+            this.compactionRequested = false;
+            this.mutationVersion++;
+        }
+    }
+
+    /** Whether any part of the sharded store exists, even only its journal. */
+    private async hasShardedStore(): Promise<boolean> {
+        const adapter = this.app.vault.adapter;
+        for (const name of [MANIFEST_FILE, MANIFEST_FILE + BACKUP_SUFFIX, JOURNAL_FILE, PREVIOUS_JOURNAL_FILE]) {
+            if (await adapter.exists(this.getStoreFilePath(name))) {
+                return true;
+            }
         }
+        return false;
+    }
+
+    /**
+     * Read the manifest and every shard. A shard whose files are damaged is
+     * restored from its backup and rewritten on the next snapshot; the
+     * journal then brings it up to date. A shard with no intact copy at all
+     * is skipped, and its notes are re-embedded on the next index run.
+     * @returns The shards restored from their backups
+     */
+    private async loadShards(): Promise<Set<number>> {
+        const restored = new Set<number>();
+        const manifest = await this.readManifest();
+        if (manifest && manifest.version !== SHARDED_STORE_VERSION) {
+            console.warn(`Unknown vector store version ${manifest.version}; starting with an empty index.`);
+            return restored;
+        }
+        this.quantizer = manifest?.quantizer ? deserializeQuantizer(manifest.quantizer) : null;
+
+        for (let shard = 0; shard < SHARD_COUNT; shard++) {
+            const result = await this.readShard(shard);
+            if (result === "missing") continue;
+            if (!result) {
+                console.warn(`Skipping damaged vector shard ${shard}; its notes will be re-embedded.`);
+                this.dirtyShards.add(shard);
+                continue;
+            }
+
+            const { data, buffer, fromBackup } = result;
+            if (fromBackup) {
+                console.warn(`Vector shard ${shard} was damaged; restored it from its backup.`);
+                this.dirtyShards.add(shard);
+                restored.add(shard);
+            }
+            for (const [filePath, mtime] of Object.entries(data.fileMtimes ?? {})) {
+                this.fileMtimes.set(filePath, mtime);
+            }
+            for (const [filePath, metadata] of Object.entries(data.fileMetadata ?? {})) {
+                this.fileMetadata.set(filePath, metadata);
+            }
+            data.entries.forEach(({ chunkId, ...entry }, row) => {
+                // A view into the shard's buffer, so loading copies nothing
+                const vector = new Float32Array(buffer, row * data.dimension * 4, data.dimension);
+                // Rows of a backup aren't in the shard's current file, so
+                // they stay in memory until the shard is rewritten
+                if (fromBackup) {
+                    this.vectors.set(chunkId, { ...entry, vector });
+                    return;
+                }
+                this.diskRows.set(chunkId, row);
+                if (this.quantizationEnabled && this.quantizer) {
+                    this.codes.set(chunkId, quantize(this.quantizer, vector));
+                    this.vectors.set(chunkId, entry);
+                } else {
+                    this.vectors.set(chunkId, { ...entry, vector });
+                }
+            });
+        }
+
+        this.fingerprint = manifest?.fingerprint ?? this.inferFingerprint();
+        this.applyQuantization();
+        this.mutationVersion++;
+        console.log(`Loaded ${this.vectors.size} vectors from ${SHARDED_STORE_DIR}/`);
+        return restored;
+    }
+
+    /** The manifest, or its backup if it is damaged; null if neither can be read. */
+    private async readManifest(): Promise<VectorStoreManifest | null> {
+        const adapter = this.app.vault.adapter;
+        const path = this.getStoreFilePath(MANIFEST_FILE);
+        for (const candidate of [path, path + BACKUP_SUFFIX]) {
+            try {
+                if (await adapter.exists(candidate)) {
+                    return JSON.parse(await adapter.read(candidate)) as VectorStoreManifest;
+                }
+            } catch {
+                // Damaged; try the backup
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Read a shard, checking its binary file against the sidecar. The two
+     * are replaced one after the other, so after a crash the intact pair may
+     * be a current file with the other's backup; every combination is tried,
+     * current files first.
+     * @returns "missing" if the shard has no files, null if no pair is intact
+     */
+    private async readShard(shard: number): Promise<{ data: VectorShardData; buffer: ArrayBuffer; fromBackup: boolean } | null | "missing"> {
+        const adapter = this.app.vault.adapter;
+        const paths = this.getShardPaths(shard);
+        const metadataPaths = [paths.metadata, paths.metadata + BACKUP_SUFFIX];
+        const vectorPaths = [paths.vectors, paths.vectors + BACKUP_SUFFIX];
+        const buffers = new Map<string, ArrayBuffer | null>();
+        const readBuffer = async (path: string) => {
+            if (!buffers.has(path)) {
+                buffers.set(path, await adapter.exists(path) ? await adapter.readBinary(path).catch(() => null) : null);
+            }
+            return buffers.get(path) ?? null;
+        };
+
+        let found = false;
+        for (const metadataPath of metadataPaths) {
+            if (!await adapter.exists(metadataPath)) continue;
+            found = true;
+            let data: VectorShardData;
+            try {
+                data = JSON.parse(await adapter.read(metadataPath)) as VectorShardData;
+            } catch {
+                continue;
+            }
+            if (data.version !== SHARDED_STORE_VERSION || !Array.isArray(data.entries)) continue;
+            if (data.entries.length === 0) {
+                return { data, buffer: new ArrayBuffer(0), fromBackup: metadataPath !== paths.metadata };
+            }
+
+            for (const vectorPath of vectorPaths) {
+                const buffer = await readBuffer(vectorPath);
+                if (!buffer || buffer.byteLength !== data.entries.length * data.dimension * 4) continue;
+                if (data.checksum !== undefined && checksumBytes(buffer) !== data.checksum) continue;
+                return { data, buffer, fromBackup: metadataPath !== paths.metadata || vectorPath !== paths.vectors };
+            }
+        }
+        return found ? null : "missing";
+    }
+
+    /**
+     * Apply the journal of the last snapshot that didn't complete, if any,
+     * then the current one. Shards restored from their backups first get the
+     * changes of the last complete snapshot. Damaged lines are skipped: each
+     * record stands on its own, and a change it lost is picked up again by
+     * the next index run.
+     */
+    private async replayJournal(restoredShards: Set<number>): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const sources: Array<{ name: string; shards?: Set<number> }> = [
+            ...(restoredShards.size > 0 ? [{ name: JOURNAL_BACKUP_FILE, shards: restoredShards }] : []),
+            { name: PREVIOUS_JOURNAL_FILE },
+            { name: JOURNAL_FILE }
+        ];
+        let replayed = 0;
+        let damaged = 0;
+        for (const { name, shards } of sources) {
+            const path = this.getStoreFilePath(name);
+            if (!await adapter.exists(path)) continue;
+            const text = await adapter.read(path);
+            const journal = decodeJournal(text);
+            const records = shards
+                ? journal.records.flatMap(record => this.restrictRecord(record, shards))
+                : journal.records;
+            this.replaying = true;
+            try {
+                for (const record of records) {
+                    this.applyRecord(record);
+                }
+            } finally {
+                this.replaying = false;
+            }
+            replayed += records.length;
+            damaged += journal.damaged;
+            if (name === JOURNAL_FILE) {
+                this.journalBytes = text.length;
+            }
+        }
+
+        if (damaged > 0) {
+            console.warn(`Skipped ${damaged} damaged vector journal entries.`);
+        }
+        if (replayed > 0) {
+            console.debug(`Replayed ${replayed} vector journal entries`);
+            this.applyQuantization();
+            // Fold the journal into the snapshot straight away
+            this.compactionRequested = true;
+        }
+    }
+
+    /**
+     * The part of a record that concerns the given shards. Store-wide
+     * records are left out: a clear removes every shard's backup too, so no
+     * backup predates one.
+     */
+    private restrictRecord(record: JournalRecord, shards: Set<number>): JournalRecord[] {
+        const inShards = (filePath: string) => shards.has(shardOf(filePath));
+        switch (record.op) {
+            case "put":
+                return inShards(filePathOfChunk(record.chunkId)) ? [record] : [];
+            case "delete": {
+                const chunkIds = record.chunkIds.filter(chunkId => inShards(filePathOfChunk(chunkId)));
+                return chunkIds.length > 0 ? [{ op: "delete", chunkIds }] : [];
+            }
+            case "mtime":
+            case "metadata":
+                return inShards(record.filePath) ? [record] : [];
+            default:
+                return [];
+        }
+    }
+
+    private applyRecord(record: JournalRecord): void {
+        switch (record.op) {
+            case "put": {
+                const { contentHash, content, filePath, fileLink, heading } = record.entry;
+                this.saveVector(record.chunkId, record.vector, contentHash, content, filePath, fileLink, heading);
+                break;
+            }
+            case "delete":
+                this.deleteVectors(record.chunkIds);
+                break;
+            case "mtime":
+                if (record.mtime === null) {
+                    this.deleteStoredMtime(record.filePath);
+                } else {
+                    this.setStoredMtime(record.filePath, record.mtime);
+                }
+                break;
+            case "metadata":
+                if (record.metadata === null) {
+                    this.deleteFileMetadata(record.filePath);
+                } else {
+                    this.setFileMetadata(record.filePath, record.metadata);
+                }
+                break;
+            case "fingerprint":
+                this.fingerprint = record.fingerprint;
+                this.manifestDirty = true;
+                break;
+            case "clear":
+                this.resetContents();
+                break;
+        }
+    }
+
+    /** Queue a change for the journal; written by the next {@link save}. */
+    private journal(record: JournalRecord): void {
+        if (!this.replaying) {
+            this.journalBuffer.push(encodeRecord(record));
+        }
+    }
+
+    /** Replace the store's contents with those of a JSON-format store. */
+    private adoptJsonData(data: VectorStoreData): void {
+        this.vectors = new Map(Object.entries(data.vectors).map(([chunkId, stored]) => (
+            [chunkId, { ...stored, vector: Float32Array.from(stored.vector ?? []) }]
+        )));
+        this.fileMtimes = new Map(Object.entries(data.fileMtimes ?? {}));
+        this.fingerprint = data.fingerprint ?? this.inferFingerprint();
+        this.mutationVersion++;
+        this.markAllDirty();
+    }
+
+    /**
+     * One-time migration from the single `embeddings.json` file, which had
+     * to be rewritten in full after every change. The old file is removed
+     * once the sharded store has been written completely.
+     */
+    private async migrateJsonStore(): Promise<void> {
+        const path = this.getPluginFilePath(VECTOR_STORE_FILE);
+        const data = JSON.parse(await this.app.vault.adapter.read(path)) as VectorStoreData;
+        if (data.version !== VECTOR_STORE_VERSION || !data.vectors) {
+            return;
+        }
+
+        this.adoptJsonData(data);
+        await this.compact();
+        if (this.dirtyShards.size > 0 || this.manifestDirty) {
+            return;
+        }
+        await this.app.vault.adapter.remove(path);
+        console.debug(`Migrated ${this.vectors.size} vectors from ${VECTOR_STORE_FILE} to ${SHARDED_STORE_DIR}/`);
     }
 
     /**
@@ -172,10 +732,9 @@ export class VectorStore {
             return;
         }
 
-        this.vectors = new Map(Object.entries(legacy.vectors));
-        this.isDirty = true;
-        await this.save();
-        console.log(`Migrated ${this.vectors.size} vectors from data.json to ${VECTOR_STORE_FILE}`);
+        this.adoptJsonData(legacy);
+        await this.compact();
+        console.log(`Migrated ${this.vectors.size} vectors from data.json to ${SHARDED_STORE_DIR}/`);
 
         // Remove the legacy blob from data.json so it stops being rewritten alongside settings
         if (data) {
@@ -186,27 +745,651 @@ export class VectorStore {
     }
 
     /**
-     * Save vector data to disk (dedicated file, separate from settings)
+     * Append the changes made since the last save to the journal, which is
+     * quick however large the index is. Once the journal has grown large
+     * enough, or a while after the last snapshot, a new snapshot is written
+     * in the background.
      */
     async save(): Promise<void> {
-        if (!this.isDirty) {
-            return;
+        await this.enqueueJournal(() => this.flushJournal());
+        if (this.isCompactionDue()) {
+            void this.compact();
         }
+    }
+
+    private enqueueJournal<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.journalQueue.then(task);
+        // A failed task must not block the ones queued after it
+        this.journalQueue = run.then(() => undefined, () => undefined);
+        return run;
+    }
 
+    private async flushJournal(): Promise<void> {
+        if (this.journalBuffer.length === 0) {
+            return;
+        }
+        const lines = this.journalBuffer;
+        this.journalBuffer = [];
+        const text = lines.join("");
         try {
-            const storeData: VectorStoreData = {
-                version: VECTOR_STORE_VERSION,
-                vectors: Object.fromEntries(this.vectors),
-                fileMtimes: Object.fromEntries(this.fileMtimes)
-            };
+            await this.ensureStoreFolder();
+            // A torn line from a failed append is skipped on replay as long
+            // as the next record starts on a line of its own
+            await this.app.vault.adapter.append(this.getStoreFilePath(JOURNAL_FILE), (this.journalTorn ? "\n" : "") + text);
+            this.journalTorn = false;
+            this.journalBytes += text.length;
+        } catch (error) {
+            this.journalTorn = true;
+            this.journalBuffer = [...lines, ...this.journalBuffer];
+            console.error("Failed to write the vector journal:", error);
+        }
+    }
 
-            await this.app.vault.adapter.write(this.getVectorFilePath(), JSON.stringify(storeData));
+    private isCompactionDue(): boolean {
+        if (this.compacting || (this.dirtyShards.size === 0 && !this.manifestDirty && !this.isGraphWriteDue())) {
+            return false;
+        }
+        return this.compactionRequested
+            || this.journalBytes >= JOURNAL_COMPACT_BYTES
+            || Date.now() - this.lastCompaction >= COMPACT_INTERVAL_MS;
+    }
 
-            this.isDirty = false;
-            console.log(`Saved ${this.vectors.size} vectors to ${VECTOR_STORE_FILE}`);
+    private isGraphWriteDue(): boolean {
+        return this.graphDirty
+            || (this.graph !== null && this.graphReady && this.graphChanges >= Math.max(MIN_GRAPH_CHANGES, this.graph.size / 100));
+    }
+
+    /**
+     * Write a snapshot of everything that changed since the last one.
+     * Snapshots run one after another, so an older one never overwrites a
+     * newer one, and may overlap with changes from a running embedding pass.
+     */
+    private compact(): Promise<void> {
+        this.compacting = true;
+        this.compactionRequested = false;
+        this.saveQueue = this.saveQueue.then(async () => {
+            try {
+                await this.writeStore();
+            } finally {
+                this.compacting = false;
+            }
+        });
+        return this.saveQueue;
+    }
+
+    /** Write the journal and a snapshot, e.g. after clearing the index. */
+    private async saveNow(): Promise<void> {
+        await this.enqueueJournal(() => this.flushJournal());
+        await this.compact();
+    }
+
+    private async writeStore(): Promise<void> {
+        if (this.dirtyShards.size === 0 && !this.manifestDirty && !this.isGraphWriteDue()) {
+            return;
+        }
+
+        let snapshot: StoreSnapshot;
+        try {
+            await this.ensureStoreFolder();
+            // The contents are taken right after the rotation, without
+            // yielding, so the snapshot holds every change in the rotated
+            // journal; later ones go to the new journal
+            snapshot = await this.enqueueJournal(async () => {
+                await this.flushJournal();
+                await this.rotateJournal();
+                return this.takeSnapshot();
+            });
+        } catch (error) {
+            console.error("Failed to save vector store:", error);
+            return;
+        }
+
+        const { shards, contents, writeManifest, writeGraph } = snapshot;
+        const pending = new Set(shards);
+        try {
+            for (const shard of shards) {
+                await this.writeShard(shard, contents.get(shard) ?? { chunkIds: [], fileMtimes: {}, fileMetadata: {} });
+                pending.delete(shard);
+            }
+            if (writeManifest) {
+                const manifest: VectorStoreManifest = {
+                    version: SHARDED_STORE_VERSION,
+                    fingerprint: this.fingerprint ?? undefined,
+                    quantizer: this.quantizer ? serializeQuantizer(this.quantizer) : undefined
+                };
+                await this.writeAtomic(this.getStoreFilePath(MANIFEST_FILE), JSON.stringify(manifest));
+            }
+            if (writeGraph) {
+                await this.writeGraph();
+            }
+            // The snapshot now holds everything the previous journal
+            // recorded; it is kept as the backups' journal
+            const previous = this.getStoreFilePath(PREVIOUS_JOURNAL_FILE);
+            await this.removeIfExists(this.getStoreFilePath(JOURNAL_BACKUP_FILE));
+            if (await this.app.vault.adapter.exists(previous)) {
+                await this.app.vault.adapter.rename(previous, this.getStoreFilePath(JOURNAL_BACKUP_FILE));
+            }
+            this.lastCompaction = Date.now();
+            console.log(`Saved ${shards.size} vector shard(s) (${this.vectors.size} vectors in total)`);
         } catch (error) {
+            for (const shard of pending) {
+                this.dirtyShards.add(shard);
+            }
+            this.manifestDirty ||= writeManifest;
+            this.graphDirty ||= writeGraph;
             console.error("Failed to save vector store:", error);
         }
+        this.applyQuantization();
+        this.updateGraph();
+    }
+
+    /**
+     * Take what is dirty and group it by shard. Changes made after this mark
+     * their shards dirty again for the next snapshot.
+     */
+    private takeSnapshot(): StoreSnapshot {
+        const shards = this.dirtyShards;
+        const writeManifest = this.manifestDirty;
+        const writeGraph = this.isGraphWriteDue();
+        this.dirtyShards = new Set();
+        this.manifestDirty = false;
+        if (writeGraph) {
+            this.graphDirty = false;
+            this.graphChanges = 0;
+        }
+
+        // Group the affected chunks and mtimes by shard in one pass each
+        const contents = new Map<number, ShardContents>();
+        const contentsOf = (shard: number) => {
+            let entry = contents.get(shard);
+            if (!entry) {
+                entry = { chunkIds: [], fileMtimes: {}, fileMetadata: {} };
+                contents.set(shard, entry);
+            }
+            return entry;
+        };
+        for (const chunkId of this.vectors.keys()) {
+            const shard = shardOf(filePathOfChunk(chunkId));
+            if (shards.has(shard)) {
+                contentsOf(shard).chunkIds.push(chunkId);
+            }
+        }
+        for (const [filePath, mtime] of this.fileMtimes) {
+            const shard = shardOf(filePath);
+            if (shards.has(shard)) {
+                contentsOf(shard).fileMtimes[filePath] = mtime;
+            }
+        }
+        for (const [filePath, metadata] of this.fileMetadata) {
+            const shard = shardOf(filePath);
+            if (shards.has(shard)) {
+                contentsOf(shard).fileMetadata[filePath] = metadata;
+            }
+        }
+
+        return { shards, contents, writeManifest, writeGraph };
+    }
+
+    /**
+     * Start a new journal for the changes after the snapshot being written.
+     * If the previous snapshot never completed, its journal is still needed
+     * and the current one is added to it instead.
+     */
+    private async rotateJournal(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const current = this.getStoreFilePath(JOURNAL_FILE);
+        const previous = this.getStoreFilePath(PREVIOUS_JOURNAL_FILE);
+        if (!await adapter.exists(current)) {
+            return;
+        }
+        if (await adapter.exists(previous)) {
+            await adapter.append(previous, await adapter.read(current));
+            await adapter.remove(current);
+        } else {
+            await adapter.rename(current, previous);
+        }
+        this.journalBytes = 0;
+        this.journalTorn = false;
+    }
+
+    /**
+     * Replace a file without ever leaving it half written: the new contents
+     * go to a temporary file, the current file becomes the backup, and the
+     * temporary file is renamed into place.
+     */
+    private async writeAtomic(path: string, data: string | ArrayBuffer): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const temp = path + TEMP_SUFFIX;
+        if (typeof data === "string") {
+            await adapter.write(temp, data);
+        } else {
+            await adapter.writeBinary(temp, data);
+        }
+        if (await adapter.exists(path)) {
+            await this.removeIfExists(path + BACKUP_SUFFIX);
+            await adapter.rename(path, path + BACKUP_SUFFIX);
+        }
+        await adapter.rename(temp, path);
+    }
+
+    private async removeIfExists(path: string): Promise<void> {
+        if (await this.app.vault.adapter.exists(path)) {
+            await this.app.vault.adapter.remove(path);
+        }
+    }
+
+    private async ensureStoreFolder(): Promise<void> {
+        const folder = this.getPluginFilePath(SHARDED_STORE_DIR);
+        if (!await this.app.vault.adapter.exists(folder)) {
+            await this.app.vault.adapter.mkdir(folder);
+        }
+    }
+
+    /**
+     * Write one shard from the current contents of the store. The binary
+     * file goes first; the sidecar carries its checksum, so a crash in
+     * between leaves a pair that {@link readShard} recognizes as mismatched.
+     * An empty shard's files are removed, backups first, so a crash part-way
+     * can't bring back a backup in place of the deleted shard.
+     */
+    private async writeShard(shard: number, { chunkIds, fileMtimes, fileMetadata }: ShardContents): Promise<void> {
+        const paths = this.getShardPaths(shard);
+        const dimension = this.fingerprint?.dimension ?? 0;
+
+        // Vectors only held as codes are copied over from the current file
+        const onDisk = await this.getFullVectors(chunkIds.filter(chunkId => !this.vectors.get(chunkId)?.vector));
+
+        const written: Array<[string, StoredVector]> = [];
+        const entries: VectorShardData["entries"] = [];
+        const rows: Float32Array[] = [];
+        for (const chunkId of chunkIds) {
+            const stored = this.vectors.get(chunkId);
+            const vector = stored?.vector ?? onDisk.get(chunkId);
+            // Deleted since the save started, or of a length the index no
+            // longer holds (left over from a store written before fingerprints)
+            if (!stored || !vector || vector.length !== dimension) continue;
+            const { contentHash, content, filePath, fileLink, heading } = stored;
+            written.push([chunkId, stored]);
+            entries.push({ chunkId, contentHash, content, filePath, fileLink, heading });
+            rows.push(vector);
+        }
+
+        if (entries.length === 0 && Object.keys(fileMtimes).length === 0 && Object.keys(fileMetadata).length === 0) {
+            for (const path of [paths.vectors, paths.metadata]) {
+                await this.removeIfExists(path + BACKUP_SUFFIX);
+                await this.removeIfExists(path);
+            }
+            return;
+        }
+
+        const buffer = new Float32Array(rows.length * dimension);
+        rows.forEach((row, index) => buffer.set(row, index * dimension));
+        const data: VectorShardData = {
+            version: SHARDED_STORE_VERSION,
+            dimension,
+            entries,
+            fileMtimes,
+            fileMetadata,
+            checksum: checksumBytes(buffer.buffer)
+        };
+
+        this.shardGenerations.set(shard, (this.shardGenerations.get(shard) ?? 0) + 1);
+        try {
+            await this.writeAtomic(paths.vectors, buffer.buffer);
+            written.forEach(([chunkId, stored], row) => {
+                // A vector replaced during the write isn't in this file
+                if (this.vectors.get(chunkId) === stored) {
+                    this.diskRows.set(chunkId, row);
+                }
+            });
+        } finally {
+            this.shardGenerations.set(shard, (this.shardGenerations.get(shard) ?? 0) + 1);
+        }
+        await this.writeAtomic(paths.metadata, JSON.stringify(data));
+    }
+
+    private getGraphPaths(): { links: string; metadata: string } {
+        return {
+            links: this.getStoreFilePath(`${SEARCH_GRAPH_FILE}.bin`),
+            metadata: this.getStoreFilePath(`${SEARCH_GRAPH_FILE}.json`)
+        };
+    }
+
+    /**
+     * Write the search graph, links first as with the shards. Without a
+     * complete graph the stored one is removed, so a stale graph isn't
+     * loaded after the threshold was raised or the index cleared.
+     */
+    private async writeGraph(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const paths = this.getGraphPaths();
+        if (!this.graph || !this.graphReady || !this.fingerprint) {
+            for (const path of [paths.links, paths.metadata]) {
+                if (await adapter.exists(path)) {
+                    await adapter.remove(path);
+                }
+            }
+            return;
+        }
+
+        const { ids, links, entryPoint } = this.graph.serialize();
+        const data: SearchGraphData = {
+            version: SEARCH_GRAPH_VERSION,
+            dimension: this.fingerprint.dimension,
+            ids,
+            hashes: ids.map(chunkId => this.vectors.get(chunkId)?.contentHash ?? ""),
+            entryPoint,
+            linkCount: links.length
+        };
+        await adapter.writeBinary(paths.links, links.buffer);
+        await adapter.write(paths.metadata, JSON.stringify(data));
+    }
+
+    /**
+     * Read the stored search graph if the index is large enough to use one.
+     * Nodes of chunks deleted or re-embedded since it was written are
+     * removed; {@link updateGraph} then adds the chunks it is missing. A
+     * damaged graph is ignored and rebuilt.
+     */
+    private async loadGraph(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const paths = this.getGraphPaths();
+        if (!this.isGraphWanted() || !await adapter.exists(paths.metadata)) {
+            return;
+        }
+
+        try {
+            const data = JSON.parse(await adapter.read(paths.metadata)) as SearchGraphData;
+            if (data.version !== SEARCH_GRAPH_VERSION || data.dimension !== this.fingerprint?.dimension) {
+                return;
+            }
+            const buffer = await adapter.readBinary(paths.links);
+            if (buffer.byteLength !== data.linkCount * 4) {
+                return;
+            }
+            const graph = HnswIndex.deserialize(
+                { ids: data.ids, links: new Int32Array(buffer), entryPoint: data.entryPoint },
+                chunkId => this.getGraphVector(chunkId)
+            );
+            if (!graph) {
+                return;
+            }
+            data.ids.forEach((chunkId, index) => {
+                if (this.vectors.get(chunkId)?.contentHash !== data.hashes[index]) {
+                    graph.remove(chunkId);
+                }
+            });
+            this.graph = graph;
+            this.graphReady = false;
+        } catch (error) {
+            console.warn("Could not read the stored search graph; it will be rebuilt.", error);
+        }
+    }
+
+    /**
+     * Set the index size from which search uses the graph instead of
+     * scanning every vector; 0 turns the graph off.
+     */
+    setGraphThreshold(threshold: number): void {
+        this.graphThreshold = threshold;
+        this.updateGraph();
+    }
+
+    private isGraphWanted(): boolean {
+        return this.graphThreshold > 0 && this.vectors.size >= this.graphThreshold;
+    }
+
+    /**
+     * Start building the search graph once the index reaches the threshold,
+     * or drop it when the index has shrunk well below it.
+     */
+    private updateGraph(): void {
+        if (!this.isGraphWanted()) {
+            if (this.graph && (this.graphThreshold === 0 || this.vectors.size < this.graphThreshold * GRAPH_DROP_RATIO)) {
+                this.graph = null;
+                this.graphReady = false;
+                this.graphDirty = true;
+            }
+            return;
+        }
+        if (!this.graph) {
+            this.graph = new HnswIndex(chunkId => this.getGraphVector(chunkId));
+            this.graphReady = false;
+        }
+        if (!this.graphReady && !this.graphBuilding) {
+            void this.buildGraph(this.graph);
+        }
+    }
+
+    /**
+     * Add every vector the graph is missing, yielding to the UI between
+     * batches. Vectors saved or deleted meanwhile update the graph directly.
+     * Stops if the graph is dropped or replaced.
+     */
+    private async buildGraph(graph: HnswIndex): Promise<void> {
+        this.graphBuilding = true;
+        const start = Date.now();
+        let inserted = 0;
+        try {
+            for (const chunkId of [...this.vectors.keys()]) {
+                if (this.graph !== graph) return;
+                if (graph.has(chunkId) || !this.vectors.has(chunkId)) continue;
+                graph.insert(chunkId);
+                if (++inserted % GRAPH_BUILD_BATCH === 0) {
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                }
+            }
+        } finally {
+            this.graphBuilding = false;
+        }
+
+        if (this.graph !== graph) {
+            // Replaced while building; build the new one
+            this.updateGraph();
+            return;
+        }
+        this.graphReady = true;
+        console.debug(`Search graph ready: ${graph.size} chunks (${inserted} added in ${Date.now() - start} ms)`);
+        if (inserted > 0) {
+            this.graphDirty = true;
+            this.compactionRequested = true;
+            void this.save();
+        }
+    }
+
+    /**
+     * The vector the graph links a chunk by: at full precision if it is in
+     * memory, otherwise as decoded from its int8 codes. Decoded vectors are
+     * cached, since building or searching the graph compares the same
+     * nodes many times over.
+     */
+    private getGraphVector(chunkId: string): Float32Array | undefined {
+        const stored = this.vectors.get(chunkId);
+        if (stored?.vector) {
+            return stored.vector;
+        }
+        const codes = this.codes.get(chunkId);
+        if (!stored || !codes || !this.quantizer) {
+            return undefined;
+        }
+        let vector = this.graphVectorCache.get(chunkId);
+        if (vector) {
+            this.graphVectorCache.delete(chunkId);
+        } else {
+            vector = dequantize(this.quantizer, codes.codes);
+            for (const oldest of this.graphVectorCache.keys()) {
+                if (this.graphVectorCache.size < GRAPH_VECTOR_CACHE_SIZE) break;
+                this.graphVectorCache.delete(oldest);
+            }
+        }
+        this.graphVectorCache.set(chunkId, vector);
+        return vector;
+    }
+
+    /** Whether search currently uses the graph rather than scanning every vector. */
+    isGraphSearchActive(): boolean {
+        return this.graphReady;
+    }
+
+    /**
+     * Turn quantized mode on or off. Turning it on releases the full-precision
+     * copies of vectors already on disk; turning it off reads them back in.
+     */
+    async setQuantization(enabled: boolean): Promise<void> {
+        if (enabled === this.quantizationEnabled) {
+            return;
+        }
+        this.quantizationEnabled = enabled;
+        if (enabled) {
+            this.applyQuantization();
+            return;
+        }
+
+        const released = [...this.vectors].filter(([, stored]) => !stored.vector).map(([chunkId]) => chunkId);
+        const vectors = await this.getFullVectors(released);
+        for (const [chunkId, vector] of vectors) {
+            const stored = this.vectors.get(chunkId);
+            if (stored && !stored.vector) {
+                stored.vector = vector;
+            }
+        }
+        this.codes.clear();
+        this.floatCache.clear();
+        this.graphVectorCache.clear();
+    }
+
+    /**
+     * In quantized mode, fit the quantizer once there are enough vectors,
+     * then replace every vector that is on disk with its codes.
+     */
+    private applyQuantization(): void {
+        const dimension = this.fingerprint?.dimension;
+        if (!this.quantizationEnabled || !dimension) {
+            return;
+        }
+        if (!this.quantizer || this.quantizer.offset.length !== dimension) {
+            if (this.vectors.size < MIN_QUANTIZER_SAMPLE) {
+                return;
+            }
+            // Nothing has been released yet, so every vector is in memory
+            const vectors = [...this.vectors.values()]
+                .map(stored => stored.vector)
+                .filter((vector): vector is Float32Array => vector?.length === dimension);
+            this.quantizer = fitQuantizer(vectors, dimension);
+            this.manifestDirty = true;
+        }
+
+        for (const [chunkId, stored] of this.vectors) {
+            if (stored.vector && this.diskRows.has(chunkId)) {
+                this.codes.set(chunkId, quantize(this.quantizer, stored.vector));
+                delete stored.vector;
+            }
+        }
+    }
+
+    /**
+     * Full-precision vectors for the given chunks: from memory, the cache,
+     * or their shards' binary files, reading each shard at most once.
+     */
+    async getFullVectors(chunkIds: string[]): Promise<Map<string, Float32Array>> {
+        const found = new Map<string, Float32Array>();
+        const byShard = new Map<number, string[]>();
+        for (const chunkId of chunkIds) {
+            const vector = this.vectors.get(chunkId)?.vector ?? this.floatCache.get(chunkId);
+            if (vector) {
+                found.set(chunkId, vector);
+            } else if (this.diskRows.has(chunkId)) {
+                const shard = shardOf(filePathOfChunk(chunkId));
+                const ids = byShard.get(shard) ?? [];
+                ids.push(chunkId);
+                byShard.set(shard, ids);
+            }
+        }
+
+        const dimension = this.fingerprint?.dimension ?? 0;
+        for (const [shard, ids] of byShard) {
+            for (let attempt = 0; attempt < SHARD_READ_ATTEMPTS; attempt++) {
+                // Rows are taken before the read: a snapshot may rewrite the
+                // shard meanwhile, and then the file is read again
+                const generation = this.shardGenerations.get(shard) ?? 0;
+                const rows = ids.map(chunkId => this.diskRows.get(chunkId));
+                let buffer: ArrayBuffer;
+                try {
+                    buffer = await this.app.vault.adapter.readBinary(this.getShardPaths(shard).vectors);
+                } catch {
+                    // Being replaced by a snapshot right now; callers make do without
+                    break;
+                }
+                if (generation % 2 === 1 || (this.shardGenerations.get(shard) ?? 0) !== generation) {
+                    continue;
+                }
+                ids.forEach((chunkId, index) => {
+                    const row = rows[index];
+                    const start = (row ?? 0) * dimension * 4;
+                    // Replaced or deleted during the read
+                    if (row === undefined || this.diskRows.get(chunkId) !== row) return;
+                    if (start + dimension * 4 > buffer.byteLength) return;
+                    // Copied, so the rest of the shard isn't kept alive
+                    const vector = new Float32Array(buffer.slice(start, start + dimension * 4));
+                    found.set(chunkId, vector);
+                    this.floatCache.delete(chunkId);
+                    this.floatCache.set(chunkId, vector);
+                });
+                break;
+            }
+        }
+        for (const chunkId of this.floatCache.keys()) {
+            if (this.floatCache.size <= FLOAT_CACHE_SIZE) break;
+            this.floatCache.delete(chunkId);
+        }
+        return found;
+    }
+
+    /** Drop the quantized and cached copies of a vector that was replaced or deleted. */
+    private forgetVector(chunkId: string): void {
+        if (this.graph?.has(chunkId)) {
+            this.graph.remove(chunkId);
+            this.graphChanges++;
+        }
+        this.codes.delete(chunkId);
+        this.diskRows.delete(chunkId);
+        this.floatCache.delete(chunkId);
+        this.graphVectorCache.delete(chunkId);
+    }
+
+    /**
+     * Fingerprint for a store written before fingerprints were recorded: the
+     * dimension can be read off the vectors, but the model is unknown until
+     * {@link setActiveModel} adopts the configured one.
+     */
+    private inferFingerprint(): EmbeddingFingerprint | null {
+        for (const stored of this.vectors.values()) {
+            if (stored.vector?.length) {
+                return { provider: "", model: "", dimension: stored.vector.length };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Tell the store which embedding model the current settings use. It is
+     * recorded in the fingerprint when the next vector starts a new index,
+     * and adopted straight away by a store whose model was never recorded.
+     */
+    setActiveModel(provider: string, model: string): void {
+        this.activeModel = { provider, model };
+        if (this.fingerprint && !this.fingerprint.model && model) {
+            this.fingerprint = { ...this.fingerprint, provider, model };
+            this.manifestDirty = true;
+            this.journal({ op: "fingerprint", fingerprint: this.fingerprint });
+        }
+    }
+
+    /**
+     * The model that produced the stored vectors, or null if there are none
+     */
+    getFingerprint(): EmbeddingFingerprint | null {
+        return this.vectors.size > 0 ? this.fingerprint : null;
     }
 
     /**
@@ -225,20 +1408,47 @@ export class VectorStore {
     }
 
     /**
-     * Save a vector for a chunk with its content
+     * Save a vector for a chunk with its content. The first vector of an empty
+     * store sets its fingerprint; after that, vectors of any other length are
+     * rejected so a model switch can't leave a mix of incomparable vectors.
+     * @returns false if the vector was rejected
      */
     saveVector(
         chunkId: string, 
-        vector: number[], 
+        vector: ArrayLike<number>, 
         contentHash: string,
         content: string,
         filePath: string,
         fileLink: string,
         heading: string = ""
-    ): void {
-        this.vectors.set(chunkId, { vector, contentHash, content, filePath, fileLink, heading });
-        this.isDirty = true;
+    ): boolean {
+        let startsIndex = false;
+        if (this.vectors.size === 0 || !this.fingerprint) {
+            startsIndex = true;
+            this.fingerprint = { ...this.activeModel, dimension: vector.length };
+            // A new index gets ranges fitted to its own vectors
+            this.quantizer = null;
+            this.manifestDirty = true;
+        } else if (vector.length !== this.fingerprint.dimension) {
+            console.warn(`Rejected ${vector.length}-dimension vector for ${chunkId}: the index holds ${this.fingerprint.dimension}-dimension vectors.`);
+            return false;
+        }
+
+        this.forgetVector(chunkId);
+        const copy = Float32Array.from(vector);
+        this.vectors.set(chunkId, { vector: copy, contentHash, content, filePath, fileLink, heading });
+        this.journal({ op: "put", chunkId, vector: copy, entry: { contentHash, content, filePath, fileLink, heading } });
+        // After the put, so that replaying the put doesn't override it
+        if (startsIndex) {
+            this.journal({ op: "fingerprint", fingerprint: this.fingerprint });
+        }
+        if (this.graph) {
+            this.graph.insert(chunkId);
+            this.graphChanges++;
+        }
+        this.markDirty(filePathOfChunk(chunkId));
         this.mutationVersion++;
+        return true;
     }
 
     /**
@@ -284,7 +1494,8 @@ export class VectorStore {
      */
     setStoredMtime(filePath: string, mtime: number): void {
         this.fileMtimes.set(filePath, mtime);
-        this.isDirty = true;
+        this.markDirty(filePath);
+        this.journal({ op: "mtime", filePath, mtime });
     }
 
     /**
@@ -292,7 +1503,35 @@ export class VectorStore {
      */
     deleteStoredMtime(filePath: string): void {
         if (this.fileMtimes.delete(filePath)) {
-            this.isDirty = true;
+            this.markDirty(filePath);
+            this.journal({ op: "mtime", filePath, mtime: null });
+        }
+    }
+
+    /**
+     * Get the tags, properties, links etc. recorded for a file the last time
+     * it was chunked
+     */
+    getFileMetadata(filePath: string): NoteMetadata | undefined {
+        return this.fileMetadata.get(filePath);
+    }
+
+    /**
+     * Record a file's metadata after it has been chunked
+     */
+    setFileMetadata(filePath: string, metadata: NoteMetadata): void {
+        this.fileMetadata.set(filePath, metadata);
+        this.markDirty(filePath);
+        this.journal({ op: "metadata", filePath, metadata });
+    }
+
+    /**
+     * Remove the stored metadata for a file (e.g. on delete)
+     */
+    deleteFileMetadata(filePath: string): void {
+        if (this.fileMetadata.delete(filePath)) {
+            this.markDirty(filePath);
+            this.journal({ op: "metadata", filePath, metadata: null });
         }
     }
 
@@ -329,7 +1568,7 @@ export class VectorStore {
     /**
      * Calculate cosine similarity between two vectors
      */
-    private cosineSimilarity(a: number[], b: number[]): number {
+    private cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
         if (a.length !== b.length || a.length === 0) {
             return 0;
         }
@@ -365,43 +1604,202 @@ export class VectorStore {
     }
 
     /**
-     * Search for similar vectors using cosine similarity
+     * Search for similar vectors using cosine similarity. Above the graph
+     * threshold the candidates come from the search graph, otherwise from
+     * scanning every vector. Vectors held only as int8 codes (quantized
+     * mode) are scored approximately first; the best candidates among them
+     * are then rescored with their full-precision vectors, read from disk or
+     * the cache.
      * @param queryVector The query embedding vector
      * @param limit Maximum number of results to return
      * @param options Optional filters, e.g. files to exclude from results
      */
-    search(queryVector: number[], limit: number = 5, options?: SearchOptions): SearchResult[] {
+    async search(queryVector: number[], limit: number = 5, options?: SearchOptions): Promise<SearchResult[]> {
         const results: SearchResult[] = [];
+        if (this.fingerprint && queryVector.length !== this.fingerprint.dimension) {
+            return results;
+        }
 
-        for (const [chunkId, stored] of this.vectors) {
-            // Skip legacy vectors that don't have content metadata
-            if (!stored.content || !stored.filePath) {
-                continue;
-            }
-
-            // Skip vectors from excluded folders
-            if (this.isExcluded(stored.filePath)) {
-                continue;
-            }
-
-            // Apply search filters
-            if (!this.matchesFilter(stored.filePath, options)) {
-                continue;
-            }
-            
-            const score = this.cosineSimilarity(queryVector, stored.vector);
-            results.push({
+        /** Results scored from codes, which need rescoring */
+        const approximate = new Set<SearchResult>();
+        const addResult = (chunkId: string, stored: StoredVector, score: number) => {
+            const result: SearchResult = {
                 chunkId,
                 content: stored.content,
                 filePath: stored.filePath,
                 fileLink: stored.fileLink ?? "",
                 score
-            });
+            };
+            results.push(result);
+            if (!stored.vector) {
+                approximate.add(result);
+            }
+        };
+
+        const hits = this.searchGraph(queryVector, limit, options);
+        if (hits) {
+            for (const hit of hits) {
+                const stored = this.vectors.get(hit.id);
+                if (stored) {
+                    addResult(hit.id, stored, hit.score);
+                }
+            }
+        } else {
+            const prepared = this.quantizer && this.codes.size > 0 ? prepareQuery(this.quantizer, queryVector) : null;
+            for (const [chunkId, stored] of this.vectors) {
+                // Skip legacy vectors that don't have content metadata
+                if (!stored.content || !stored.filePath) {
+                    continue;
+                }
+
+                // Skip vectors from excluded folders
+                if (this.isExcluded(stored.filePath)) {
+                    continue;
+                }
+
+                // Apply search filters
+                if (!this.matchesFilter(stored.filePath, options)) {
+                    continue;
+                }
+
+                const codes = stored.vector ? undefined : this.codes.get(chunkId);
+                const score = stored.vector
+                    ? this.cosineSimilarity(queryVector, stored.vector)
+                    : prepared && codes ? approximateCosine(prepared, codes) : 0;
+                addResult(chunkId, stored, score);
+            }
         }
 
         // Sort by score descending and return top results
         results.sort((a, b) => b.score - a.score);
-        return results.slice(0, limit);
+        if (approximate.size === 0) {
+            return results.slice(0, limit);
+        }
+
+        const candidates = results.slice(0, limit * RESCORE_FACTOR);
+        const toRescore = candidates.filter(result => approximate.has(result));
+        const vectors = await this.getFullVectors(toRescore.map(result => result.chunkId));
+        for (const result of toRescore) {
+            const vector = vectors.get(result.chunkId);
+            if (vector) {
+                result.score = this.cosineSimilarity(queryVector, vector);
+            }
+        }
+        candidates.sort((a, b) => b.score - a.score);
+        return candidates.slice(0, limit);
+    }
+
+    /**
+     * Candidates from the search graph, or null to scan every vector
+     * instead: while there is no complete graph, or when the filters leave
+     * too few matches in the part of the graph the search explored.
+     */
+    private searchGraph(queryVector: number[], limit: number, options?: SearchOptions): HnswHit[] | null {
+        if (!this.graph || !this.graphReady) {
+            return null;
+        }
+        // Quantized scores are rescored, so fetch as many candidates as the scan would
+        const wanted = this.codes.size > 0 ? limit * RESCORE_FACTOR : limit;
+        const hits = this.graph.search(queryVector, wanted, chunkId => {
+            const stored = this.vectors.get(chunkId);
+            return !!stored?.content && !!stored.filePath && this.passesFilter(stored.filePath, options);
+        });
+        return hits.length >= Math.min(wanted, this.vectors.size) ? hits : null;
+    }
+
+    /** Whether quantized mode is on and in effect (the quantizer is fitted). */
+    isQuantized(): boolean {
+        return this.quantizationEnabled && this.quantizer !== null;
+    }
+
+    /**
+     * Measure how quantized search compares with full precision: each of up
+     * to `sampleSize` stored vectors is used as a query against all the
+     * others, and the full-precision top `k` is compared with what the
+     * quantized scan finds, before and after rescoring. Works whether or not
+     * quantized mode is on; when it is off, ranges are fitted just for this.
+     * Reads every shard, so it takes a while on large indexes.
+     * @returns null if the store has too few vectors to measure
+     */
+    async evaluateQuantization(sampleSize: number = 20, k: number = 10): Promise<QuantizationReport | null> {
+        const dimension = this.fingerprint?.dimension;
+        const chunkIds = [...this.vectors.keys()];
+        if (!dimension || chunkIds.length <= k) {
+            return null;
+        }
+
+        const quantizer = this.quantizer ?? fitQuantizer(
+            // Without a quantizer nothing has been released, so every vector is in memory
+            [...this.vectors.values()].map(stored => stored.vector ?? new Float32Array(dimension)),
+            dimension
+        );
+        const candidates = k * RESCORE_FACTOR;
+        const queryCount = Math.min(sampleSize, chunkIds.length);
+        const queryIds = Array.from({ length: queryCount }, (_, i) => chunkIds[Math.floor(i * chunkIds.length / queryCount)] ?? "");
+        const queryVectors = await this.getFullVectors(queryIds);
+        const queries = queryIds.flatMap(chunkId => {
+            const vector = queryVectors.get(chunkId);
+            return vector ? [{
+                chunkId,
+                vector,
+                prepared: prepareQuery(quantizer, vector),
+                exact: [] as Array<{ chunkId: string; score: number }>,
+                approximate: [] as Array<{ chunkId: string; score: number; exact: number }>
+            }] : [];
+        });
+
+        /** Insert into a list kept sorted by `score`, descending, and capped at `size`. */
+        const insert = <T extends { score: number }>(list: T[], item: T, size: number) => {
+            if (list.length >= size && item.score <= (list[list.length - 1]?.score ?? -Infinity)) return;
+            let index = list.length;
+            while (index > 0 && (list[index - 1]?.score ?? Infinity) < item.score) index--;
+            list.splice(index, 0, item);
+            if (list.length > size) list.pop();
+        };
+
+        // Shard by shard, so only one shard's vectors are read in at a time
+        const byShard = new Map<number, string[]>();
+        for (const chunkId of chunkIds) {
+            const shard = shardOf(filePathOfChunk(chunkId));
+            const ids = byShard.get(shard) ?? [];
+            ids.push(chunkId);
+            byShard.set(shard, ids);
+        }
+        for (const ids of byShard.values()) {
+            const vectors = await this.getFullVectors(ids);
+            for (const [chunkId, vector] of vectors) {
+                const codes = this.codes.get(chunkId) ?? quantize(quantizer, vector);
+                for (const query of queries) {
+                    if (query.chunkId === chunkId) continue;
+                    const exact = this.cosineSimilarity(query.vector, vector);
+                    insert(query.exact, { chunkId, score: exact }, k);
+                    insert(query.approximate, { chunkId, score: approximateCosine(query.prepared, codes), exact }, candidates);
+                }
+            }
+            // Yield to keep the UI responsive
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+
+        let quantizedHits = 0;
+        let rescoredHits = 0;
+        for (const query of queries) {
+            const truth = new Set(query.exact.map(hit => hit.chunkId));
+            quantizedHits += query.approximate.slice(0, k).filter(hit => truth.has(hit.chunkId)).length;
+            const rescored = [...query.approximate].sort((a, b) => b.exact - a.exact).slice(0, k);
+            rescoredHits += rescored.filter(hit => truth.has(hit.chunkId)).length;
+        }
+        const total = Math.max(1, queries.length * k);
+
+        return {
+            queries: queries.length,
+            k,
+            candidates,
+            quantizedRecall: quantizedHits / total,
+            rescoredRecall: rescoredHits / total,
+            fullPrecisionBytes: chunkIds.length * dimension * 4,
+            // One byte per dimension plus the stored norm
+            quantizedBytes: chunkIds.length * (dimension + 8)
+        };
     }
 
     /**
@@ -422,21 +1820,23 @@ export class VectorStore {
      */
     deleteVectorsForFile(filePath: string): number {
         const prefix = `${filePath}::`;
-        let deletedCount = 0;
+        const deleted: string[] = [];
 
         for (const chunkId of this.vectors.keys()) {
             if (chunkId.startsWith(prefix)) {
                 this.vectors.delete(chunkId);
-                deletedCount++;
+                this.forgetVector(chunkId);
+                deleted.push(chunkId);
             }
         }
 
-        if (deletedCount > 0) {
-            this.isDirty = true;
+        if (deleted.length > 0) {
+            this.markDirty(filePath);
+            this.journal({ op: "delete", chunkIds: deleted });
             this.mutationVersion++;
         }
 
-        return deletedCount;
+        return deleted.length;
     }
 
     /**
@@ -444,10 +1844,13 @@ export class VectorStore {
      */
     deleteVectors(chunkIds: string[]): void {
         for (const id of chunkIds) {
-            this.vectors.delete(id);
+            if (this.vectors.delete(id)) {
+                this.forgetVector(id);
+                this.markDirty(filePathOfChunk(id));
+            }
         }
         if (chunkIds.length > 0) {
-            this.isDirty = true;
+            this.journal({ op: "delete", chunkIds });
             this.mutationVersion++;
         }
     }
@@ -479,19 +1882,41 @@ export class VectorStore {
      * Clear all vectors and save immediately
      */
     async clearAll(): Promise<void> {
+        this.resetContents();
+        this.journal({ op: "clear" });
+        await this.saveNow();
+        console.log("Vector store cleared and saved.");
+    }
+
+    /** Empty the store; every shard is rewritten (removed) by the next snapshot. */
+    private resetContents(): void {
+        this.resetMemory();
+        this.graphDirty = true;
+        this.markAllDirty();
+        this.mutationVersion++;
+    }
+
+    /** Drop everything the store holds in memory, leaving its files alone. */
+    private resetMemory(): void {
         this.vectors.clear();
         this.fileMtimes.clear();
-        this.isDirty = true;
-        this.mutationVersion++;
-        await this.save();
-        console.log("Vector store cleared and saved.");
+        this.fileMetadata.clear();
+        this.codes.clear();
+        this.diskRows.clear();
+        this.floatCache.clear();
+        this.graphVectorCache.clear();
+        this.fingerprint = null;
+        this.quantizer = null;
+        this.graph = null;
+        this.graphReady = false;
     }
 
     /**
-     * Get all vectors as an array (for similarity search)
+     * Get all vectors as an array. In quantized mode `vector` is absent for
+     * vectors only held as codes.
      */
-    getAllVectors(): Array<{ chunkId: string; vector: number[] }> {
-        const result: Array<{ chunkId: string; vector: number[] }> = [];
+    getAllVectors(): Array<{ chunkId: string; vector?: Float32Array }> {
+        const result: Array<{ chunkId: string; vector?: Float32Array }> = [];
         for (const [chunkId, stored] of this.vectors) {
             result.push({ chunkId, vector: stored.vector });
         }
@@ -499,10 +1924,10 @@ export class VectorStore {
     }
 
     /**
-     * Check if there are unsaved changes
+     * Check if there are changes not yet on disk, i.e. not yet journaled
      */
     hasUnsavedChanges(): boolean {
-        return this.isDirty;
+        return this.journalBuffer.length > 0;
     }
 
     /**
@@ -525,11 +1950,13 @@ export class VectorStore {
 
         for (const chunkId of toDelete) {
             this.vectors.delete(chunkId);
+            this.forgetVector(chunkId);
+            this.markDirty(filePathOfChunk(chunkId));
             deletedCount++;
         }
 
         if (deletedCount > 0) {
-            this.isDirty = true;
+            this.journal({ op: "delete", chunkIds: toDelete });
             this.mutationVersion++;
         }
 
@@ -0,0 +1,52 @@
+/**
+ * Cancellation helpers shared by providers and the RAG pipeline. Cancellation
+ * is signalled with a standard `AbortSignal` and surfaces as a rejected
+ * promise with an `AbortError`, the same shape `fetch` uses, so a single
+ * {@link isAbortError} check covers both.
+ */
+
+/** Create the error thrown when a request is cancelled. */
+export function createAbortError(): Error {
+    return new DOMException("Request cancelled", "AbortError");
+}
+
+/** Whether an error means the request was cancelled rather than failed. */
+export function isAbortError(error: unknown): boolean {
+    return (error instanceof Error || error instanceof DOMException) && error.name === "AbortError";
+}
+
+/** Throw an AbortError if the signal has already fired. */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw createAbortError();
+    }
+}
+
+/**
+ * Race a promise against an abort signal. Obsidian's `requestUrl` has no
+ * cancellation of its own, so the underlying request keeps running, but the
+ * caller stops waiting on it as soon as the signal fires.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        return Promise.reject(createAbortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(createAbortError());
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(
+            (value) => {
+                signal.removeEventListener("abort", onAbort);
+                resolve(value);
+            },
+            (error: unknown) => {
+                signal.removeEventListener("abort", onAbort);
+                reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        );
+    });
+}
@@ -1,104 +1,288 @@
 import type { MyPluginSettings } from "../settings";
-import { ChatProvider, ChatProviderId, EmbeddingProvider, EmbeddingProviderId } from "./types";
-import { createOpenRouterProvider } from "./providers/openrouter";
-import { createOpenAIProvider } from "./providers/openai";
-import { OllamaProvider } from "./providers/ollama";
-
-/** Display labels for provider dropdowns in the settings UI. */
-export const CHAT_PROVIDER_LABELS: Record<ChatProviderId, string> = {
-    openrouter: "OpenRouter",
-    openai: "OpenAI",
-    ollama: "Ollama (local)",
-};
-
-export const EMBEDDING_PROVIDER_LABELS: Record<EmbeddingProviderId, string> = {
-    openrouter: "OpenRouter",
-    openai: "OpenAI",
-    ollama: "Ollama (local)",
-};
+import {
+    ChatProvider,
+    ChatProviderId,
+    EmbeddingProvider,
+    EmbeddingProviderId,
+    EmbeddingResponse,
+    LLMResponse,
+    ModelCapability,
+    ModelListResponse,
+    RequestOptions,
+} from "./types";
+import { BUILT_IN_PROVIDERS } from "./providers/builtin";
+import { getModelField, getProviderValues, ProviderRegistry } from "./registry";
+import { filterModels, getReducibleEmbeddingDimensions } from "./models";
+import { FallbackChatProvider, FallbackEmbeddingProvider, FallbackEntry } from "./fallback";
+import {
+    DEFAULT_RETRY_POLICY,
+    ResilientChatProvider,
+    ResilientEmbeddingProvider,
+    RetryPolicy,
+    getCircuitBreaker,
+} from "./resilience";
+import { MeterTarget, MeteredChatProvider, MeteredEmbeddingProvider, UsageMeter } from "./usage";
+
+/**
+ * Every backend the plugin can use: the built-in ones, plus any other
+ * plugins register at runtime.
+ */
+export const providerRegistry = new ProviderRegistry(BUILT_IN_PROVIDERS);
+
+/**
+ * Stands in for a provider id that isn't registered, e.g. one added by a
+ * plugin that has since been disabled, so requests fail with an explanation.
+ */
+class UnavailableProvider implements ChatProvider, EmbeddingProvider {
+    constructor(private id: string) {}
+
+    private get message(): string {
+        return `Provider "${this.id}" is not available. If another plugin adds it, check that the plugin is enabled.`;
+    }
+
+    sendChatMessage(): Promise<LLMResponse> {
+        return Promise.resolve({ content: "", error: this.message });
+    }
+
+    getEmbeddings(): Promise<EmbeddingResponse> {
+        return Promise.resolve({ embeddings: [], error: this.message });
+    }
+}
+
+/** A registered provider's label, or its id when it isn't registered. */
+export function getProviderLabel(id: string): string {
+    return providerRegistry.get(id)?.label ?? id;
+}
+
+/** Retry/timeout policy from the user's connection settings. */
+function retryPolicyFromSettings(settings: MyPluginSettings): RetryPolicy {
+    return {
+        ...DEFAULT_RETRY_POLICY,
+        timeoutMs: Math.max(0, settings.requestTimeoutSeconds) * 1000,
+        maxRetries: Math.max(0, settings.maxRetries),
+    };
+}
+
+/** The chat model name a provider is configured to use. */
+export function getChatModel(settings: MyPluginSettings, id: ChatProviderId): string {
+    return getModelName(settings, id, "chat");
+}
+
+function getModelName(settings: MyPluginSettings, id: string, capability: "chat" | "embeddings"): string {
+    const definition = providerRegistry.get(id);
+    const field = definition && getModelField(definition, capability);
+    return definition && field ? getProviderValues(settings, definition)[field.key] ?? "" : "";
+}
+
+/** Whether requests to a provider leave the machine (and may cost money). */
+function isRemoteProvider(settings: MyPluginSettings, id: string): boolean {
+    const definition = providerRegistry.get(id);
+    return definition?.isRemote?.(getProviderValues(settings, definition)) ?? true;
+}
+
+/**
+ * The selected chat provider followed by its configured fallbacks, in order.
+ * Duplicates, the primary itself and fallbacks without credentials are
+ * dropped.
+ */
+export function getChatProviderChain(settings: MyPluginSettings): ChatProviderId[] {
+    const chain: ChatProviderId[] = [settings.chatProvider];
+    for (const id of settings.chatFallbackProviders) {
+        if (!chain.includes(id) && isChatProviderConfigured(settings, id)) {
+            chain.push(id);
+        }
+    }
+    return chain;
+}
 
 /**
  * Build the chat backend for the currently selected chat provider, using
- * that provider's own saved key/model from settings.
+ * that provider's own saved key/model from settings, followed by any
+ * fallback providers. Each backend is wrapped in the shared
+ * retry/timeout/circuit-breaker layer, then in usage accounting, before the
+ * chain moves on to the next.
+ */
+export function createChatProvider(settings: MyPluginSettings, usageMeter: UsageMeter): ChatProvider {
+    const policy = retryPolicyFromSettings(settings);
+    return new FallbackChatProvider(getChatProviderChain(settings).map(id => buildChatEntry(settings, id, policy, usageMeter)));
+}
+
+/**
+ * Build the optional utility backend used for query rewriting, HyDE and
+ * reranking, so those calls can run on a cheaper or local model while the
+ * chat provider only writes the answer. Returns null when no utility
+ * provider is selected or it has no credentials; callers then use the chat
+ * provider for everything.
+ *
+ * It has no fallbacks of its own: every utility step already falls back to
+ * the unenhanced query or ranking when its call fails.
+ */
+export function createUtilityProvider(settings: MyPluginSettings, usageMeter: UsageMeter): ChatProvider | null {
+    const id = settings.utilityProvider;
+    if (!id || !isChatProviderConfigured(settings, id)) {
+        return null;
+    }
+    return new FallbackChatProvider([buildChatEntry(settings, id, retryPolicyFromSettings(settings), usageMeter, settings.utilityModel.trim())]);
+}
+
+/**
+ * One chat backend wrapped in the retry layer, then in usage accounting.
+ * @param model Overrides the provider's configured chat model when not blank
+ */
+function buildChatEntry(
+    settings: MyPluginSettings,
+    id: ChatProviderId,
+    policy: RetryPolicy,
+    usageMeter: UsageMeter,
+    model = ""
+): FallbackEntry<ChatProvider> {
+    const target: MeterTarget = {
+        provider: id,
+        model: model || getChatModel(settings, id),
+        label: getProviderLabel(id),
+        isRemote: isRemoteProvider(settings, id),
+    };
+    const resilient = new ResilientChatProvider(buildChatProvider(settings, id, model), policy, getCircuitBreaker(id), target.label);
+    return { id, label: target.label, provider: new MeteredChatProvider(resilient, usageMeter, target) };
+}
+
+function buildChatProvider(settings: MyPluginSettings, id: ChatProviderId, model = ""): ChatProvider {
+    const definition = providerRegistry.get(id);
+    if (!definition?.createChatProvider) {
+        return new UnavailableProvider(id);
+    }
+    const values = getProviderValues(settings, definition);
+    const field = getModelField(definition, "chat");
+    return definition.createChatProvider(model && field ? { ...values, [field.key]: model } : values);
+}
+
+/** The embedding model name a provider is configured to use. */
+export function getEmbeddingModel(settings: MyPluginSettings, id: EmbeddingProviderId): string {
+    return getModelName(settings, id, "embeddings");
+}
+
+/**
+ * Reduce a model name to the underlying model, so the same model served
+ * through different providers compares equal: OpenRouter's vendor prefix
+ * ("openai/text-embedding-3-small") and Ollama's default tag
+ * ("nomic-embed-text:latest") are stripped.
+ */
+export function normalizeEmbeddingModel(model: string): string {
+    const name = model.trim().toLowerCase();
+    return name.slice(name.lastIndexOf("/") + 1).replace(/:latest$/, "");
+}
+
+/**
+ * The shortened embedding length a provider requests, or undefined for full
+ * size. Only providers with the `embeddingDimensions` capability (OpenAI and
+ * OpenRouter) pass `dimensions` through, and only for models that support
+ * it; a setting at or above the model's full size is ignored.
  */
-export function createChatProvider(settings: MyPluginSettings): ChatProvider {
-    switch (settings.chatProvider) {
-        case "openai":
-            return createOpenAIProvider({
-                apiKey: settings.openAIApiKey,
-                chatModel: settings.openAIModel,
-                embeddingModel: settings.openAIEmbeddingModel,
-            });
-        case "ollama":
-            return new OllamaProvider({
-                baseUrl: settings.ollamaBaseUrl,
-                chatModel: settings.ollamaModel,
-                embeddingModel: settings.ollamaEmbeddingModel,
-            });
-        case "openrouter":
-        default:
-            return createOpenRouterProvider({
-                apiKey: settings.openRouterApiKey,
-                chatModel: settings.openRouterModel,
-                embeddingModel: settings.openRouterEmbeddingModel,
-            });
+export function getEmbeddingDimensions(settings: MyPluginSettings, id: EmbeddingProviderId): number | undefined {
+    if (!providerRegistry.get(id)?.capabilities.embeddingDimensions) {
+        return undefined;
     }
+    const full = getReducibleEmbeddingDimensions(getEmbeddingModel(settings, id));
+    const requested = settings.embeddingDimensions;
+    return full !== undefined && requested > 0 && requested < full ? requested : undefined;
+}
+
+/**
+ * The vector length a provider's embeddings will have, when it can be told
+ * from the settings: the shortened length if one applies, otherwise the full
+ * size of a known model.
+ */
+export function getExpectedEmbeddingDimensions(settings: MyPluginSettings, id: EmbeddingProviderId): number | undefined {
+    return getEmbeddingDimensions(settings, id) ?? getReducibleEmbeddingDimensions(getEmbeddingModel(settings, id));
+}
+
+/**
+ * The selected embedding provider followed by its usable fallbacks. Besides
+ * needing credentials, a fallback must serve the same embedding model as the
+ * primary (which built the stored vectors), at the same length: vectors from
+ * a different model live in a different space, so mixing them would silently
+ * break search.
+ */
+export function getEmbeddingProviderChain(settings: MyPluginSettings): EmbeddingProviderId[] {
+    const primaryModel = normalizeEmbeddingModel(getEmbeddingModel(settings, settings.embeddingProvider));
+    const primaryDimensions = getEmbeddingDimensions(settings, settings.embeddingProvider);
+    const chain: EmbeddingProviderId[] = [settings.embeddingProvider];
+    for (const id of settings.embeddingFallbackProviders) {
+        if (chain.includes(id) || !isEmbeddingProviderConfigured(settings, id)) continue;
+        if (normalizeEmbeddingModel(getEmbeddingModel(settings, id)) !== primaryModel) continue;
+        if (getEmbeddingDimensions(settings, id) !== primaryDimensions) continue;
+        chain.push(id);
+    }
+    return chain;
 }
 
 /**
  * Build the embedding backend for the currently selected embedding provider,
- * independent of whichever provider is used for chat.
+ * independent of whichever provider is used for chat, followed by any
+ * fallbacks serving the same model. Wrapped in the same retry and usage
+ * layers as chat, sharing its circuit breaker when both use one backend.
  */
-export function createEmbeddingProvider(settings: MyPluginSettings): EmbeddingProvider {
-    switch (settings.embeddingProvider) {
-        case "openai":
-            return createOpenAIProvider({
-                apiKey: settings.openAIApiKey,
-                chatModel: settings.openAIModel,
-                embeddingModel: settings.openAIEmbeddingModel,
-            });
-        case "ollama":
-            return new OllamaProvider({
-                baseUrl: settings.ollamaBaseUrl,
-                chatModel: settings.ollamaModel,
-                embeddingModel: settings.ollamaEmbeddingModel,
-            });
-        case "openrouter":
-        default:
-            return createOpenRouterProvider({
-                apiKey: settings.openRouterApiKey,
-                chatModel: settings.openRouterModel,
-                embeddingModel: settings.openRouterEmbeddingModel,
-            });
+export function createEmbeddingProvider(settings: MyPluginSettings, usageMeter: UsageMeter): EmbeddingProvider {
+    const policy = retryPolicyFromSettings(settings);
+    return new FallbackEmbeddingProvider(getEmbeddingProviderChain(settings).map(id => {
+        const target: MeterTarget = {
+            provider: id,
+            model: getEmbeddingModel(settings, id),
+            label: getProviderLabel(id),
+            isRemote: isRemoteProvider(settings, id),
+        };
+        const resilient = new ResilientEmbeddingProvider(buildEmbeddingProvider(settings, id), policy, getCircuitBreaker(id), target.label);
+        return { id, label: target.label, provider: new MeteredEmbeddingProvider(resilient, usageMeter, target) };
+    }));
+}
+
+function buildEmbeddingProvider(settings: MyPluginSettings, id: EmbeddingProviderId): EmbeddingProvider {
+    const definition = providerRegistry.get(id);
+    if (!definition?.createEmbeddingProvider) {
+        return new UnavailableProvider(id);
     }
+    return definition.createEmbeddingProvider(getProviderValues(settings, definition), {
+        dimensions: getEmbeddingDimensions(settings, id),
+    });
 }
 
 /**
- * Whether the selected chat provider has enough configuration to attempt a
- * request. OpenRouter/OpenAI need a non-empty API key; Ollama just needs a
- * base URL (it's a local server, not a hosted API).
+ * List the models a provider offers for `capability`, for the model pickers
+ * in settings. Talks to the provider directly, without the retry layer or
+ * usage accounting, so an unreachable server fails fast.
  */
-export function isChatProviderConfigured(settings: MyPluginSettings): boolean {
-    switch (settings.chatProvider) {
-        case "openai":
-            return settings.openAIApiKey.trim().length > 0;
-        case "ollama":
-            return settings.ollamaBaseUrl.trim().length > 0;
-        case "openrouter":
-        default:
-            return settings.openRouterApiKey.trim().length > 0;
+export async function listProviderModels(
+    settings: MyPluginSettings,
+    id: string,
+    capability: ModelCapability,
+    options?: RequestOptions
+): Promise<ModelListResponse> {
+    const definition = providerRegistry.get(id);
+    if (!definition?.listModels) {
+        return { models: [], error: `${getProviderLabel(id)} can't list its models` };
     }
+    const response = await definition.listModels(getProviderValues(settings, definition), options);
+    return { ...response, models: filterModels(response.models, capability) };
+}
+
+/**
+ * Whether a chat provider (by default the selected one) is registered, can
+ * chat, and has enough configuration to attempt a request (e.g. an API key
+ * for hosted providers, a base URL for local ones).
+ */
+export function isChatProviderConfigured(
+    settings: MyPluginSettings,
+    id: ChatProviderId = settings.chatProvider
+): boolean {
+    const definition = providerRegistry.get(id);
+    return !!definition?.capabilities.chat && definition.isConfigured(getProviderValues(settings, definition));
 }
 
 /** Same as {@link isChatProviderConfigured}, for the embedding provider. */
-export function isEmbeddingProviderConfigured(settings: MyPluginSettings): boolean {
-    switch (settings.embeddingProvider) {
-        case "openai":
-            return settings.openAIApiKey.trim().length > 0;
-        case "ollama":
-            return settings.ollamaBaseUrl.trim().length > 0;
-        case "openrouter":
-        default:
-            return settings.openRouterApiKey.trim().length > 0;
-    }
+export function isEmbeddingProviderConfigured(
+    settings: MyPluginSettings,
+    id: EmbeddingProviderId = settings.embeddingProvider
+): boolean {
+    const definition = providerRegistry.get(id);
+    return !!definition?.capabilities.embeddings && definition.isConfigured(getProviderValues(settings, definition));
 }
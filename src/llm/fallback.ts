@@ -0,0 +1,117 @@
+import type {
+    ChatProvider,
+    ChatRequestOptions,
+    EmbeddingProvider,
+    EmbeddingResponse,
+    LLMChatMessage,
+    LLMResponse,
+    RequestOptions,
+    ResponseStatus,
+    TokenCallback,
+} from "./types";
+
+/** One backend in a fallback chain, in the order it should be tried. */
+export interface FallbackEntry<P> {
+    /** Provider id, recorded on the response of whichever entry answers. */
+    id: string;
+    /** Display name used in error messages. */
+    label: string;
+    provider: P;
+}
+
+/**
+ * Try each entry in order until one succeeds. Each entry already runs
+ * through the retry layer, so moving on means that backend has exhausted its
+ * own retries (or its circuit is open). Cancellation is not a failure: an
+ * AbortError propagates straight out instead of trying the next backend.
+ *
+ * If every entry fails, the errors from all of them are combined into one.
+ *
+ * @param canContinue Extra veto, e.g. a stream that already emitted tokens
+ */
+async function runChain<P, T extends ResponseStatus>(
+    entries: FallbackEntry<P>[],
+    call: (provider: P) => Promise<T>,
+    canContinue: () => boolean = () => true
+): Promise<T> {
+    const failures: string[] = [];
+    let last: T | undefined;
+
+    for (const [index, entry] of entries.entries()) {
+        const result = await call(entry.provider);
+        if (!result.error) {
+            if (index > 0) {
+                console.warn(`Answered by fallback provider ${entry.label} after: ${failures.join("; ")}`);
+            }
+            return { ...result, provider: entry.id };
+        }
+
+        failures.push(`${entry.label}: ${result.error}`);
+        last = { ...result, provider: entry.id };
+        if (!canContinue()) {
+            break;
+        }
+    }
+
+    if (!last) {
+        throw new Error("Fallback chain has no providers");
+    }
+    return failures.length > 1 ? { ...last, error: failures.join("; ") } : last;
+}
+
+/**
+ * Chat provider that fails over along an ordered list of backends, e.g.
+ * OpenRouter → OpenAI → Ollama. A streamed answer only falls over if the
+ * failing backend hadn't emitted any text yet, so the user never sees two
+ * half-answers spliced together.
+ *
+ * A request that offers tools only goes to the backends that support them,
+ * since the others would answer without the tools' results.
+ */
+export class FallbackChatProvider implements ChatProvider {
+    constructor(private entries: FallbackEntry<ChatProvider>[]) {}
+
+    get supportsTools(): boolean {
+        return this.entries.some(entry => entry.provider.supportsTools);
+    }
+
+    sendChatMessage(messages: LLMChatMessage[], options?: ChatRequestOptions): Promise<LLMResponse> {
+        const entries = options?.tools && options.tools.length > 0
+            ? this.entries.filter(entry => entry.provider.supportsTools)
+            : this.entries;
+        return runChain(entries, provider => provider.sendChatMessage(messages, options));
+    }
+
+    streamChatMessage(messages: LLMChatMessage[], onToken: TokenCallback, options?: ChatRequestOptions): Promise<LLMResponse> {
+        let emitted = false;
+        const forward: TokenCallback = (token) => {
+            emitted = true;
+            onToken(token);
+        };
+        return runChain(
+            this.entries,
+            provider => provider.streamChatMessage
+                ? provider.streamChatMessage(messages, forward, options)
+                : provider.sendChatMessage(messages, options).then(response => {
+                    // Keep the caller's token view complete when a
+                    // non-streaming backend answers mid-chain.
+                    if (!response.error && response.content) forward(response.content);
+                    return response;
+                }),
+            () => !emitted
+        );
+    }
+}
+
+/**
+ * Embedding provider that fails over along an ordered list of backends. The
+ * factory only puts backends in the chain that serve the same embedding model,
+ * since vectors from different models aren't comparable.
+ */
+export class FallbackEmbeddingProvider implements EmbeddingProvider {
+    constructor(private entries: FallbackEntry<EmbeddingProvider>[]) {}
+
+    getEmbeddings(texts: string[], options?: RequestOptions): Promise<EmbeddingResponse> {
+        return runChain(this.entries, provider => provider.getEmbeddings(texts, options));
+    }
+}
@@ -0,0 +1,76 @@
+import type { ModelCapability, ModelInfo } from "./types";
+
+/**
+ * Guess a model's capability from its name and (for Ollama) its model
+ * families, for listings that don't say. Embedding models almost always have
+ * "embed" in their name or are BERT-family encoders.
+ */
+export function inferCapabilities(id: string, families: string[] = []): ModelCapability[] {
+    const isEmbedding = /embed/i.test(id) || families.some(family => /bert/i.test(family));
+    return [isEmbedding ? "embedding" : "chat"];
+}
+
+/**
+ * Keep the models usable for `capability`, sorted by id. Models of unknown
+ * capability are kept, since excluding them could hide the right one.
+ */
+export function filterModels(models: ModelInfo[], capability: ModelCapability): ModelInfo[] {
+    return models
+        .filter(model => !model.capabilities || model.capabilities.includes(capability))
+        .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Full vector length of the embedding models that accept a `dimensions`
+ * parameter. They are trained so that a prefix of the vector, renormalized,
+ * is itself a good (smaller) embedding.
+ */
+const REDUCIBLE_EMBEDDING_MODELS: Record<string, number> = {
+    "text-embedding-3-small": 1536,
+    "text-embedding-3-large": 3072,
+};
+
+/**
+ * The full dimension of an embedding model that can be shortened, or
+ * undefined for models that can't (or aren't known to). Any vendor prefix
+ * is ignored, so "openai/text-embedding-3-small" matches too.
+ */
+export function getReducibleEmbeddingDimensions(model: string): number | undefined {
+    const name = model.trim().toLowerCase();
+    return REDUCIBLE_EMBEDDING_MODELS[name.slice(name.lastIndexOf("/") + 1)];
+}
+
+/**
+ * Longest input, in tokens, that common embedding models accept. Hosted
+ * APIs reject longer inputs; local servers usually truncate them silently
+ * or fail, depending on the server.
+ */
+const EMBEDDING_INPUT_LIMITS: Record<string, number> = {
+    "text-embedding-3-small": 8191,
+    "text-embedding-3-large": 8191,
+    "text-embedding-ada-002": 8191,
+    "nomic-embed-text": 2048,
+    "mxbai-embed-large": 512,
+    "bge-m3": 8192,
+    "bge-large": 512,
+    "all-minilm": 256,
+    "snowflake-arctic-embed": 512,
+};
+
+/** Used for models not in the table above. */
+const DEFAULT_EMBEDDING_INPUT_LIMIT = 8191;
+
+/**
+ * The input token limit of an embedding model, matched on the model name
+ * without any vendor prefix or tag (so "nomic-embed-text:latest" matches).
+ */
+export function getEmbeddingInputLimit(model: string): number {
+    const name = model.trim().toLowerCase();
+    const base = name.slice(name.lastIndexOf("/") + 1).replace(/:.*$/, "");
+    for (const [prefix, limit] of Object.entries(EMBEDDING_INPUT_LIMITS)) {
+        if (base.startsWith(prefix)) {
+            return limit;
+        }
+    }
+    return DEFAULT_EMBEDDING_INPUT_LIMIT;
+}
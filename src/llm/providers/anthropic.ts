@@ -0,0 +1,279 @@
+import { requestUrl } from "obsidian";
+import {
+    LLMChatMessage,
+    ChatProvider,
+    ChatRequestOptions,
+    LLMResponse,
+    ModelListResponse,
+    ModelLister,
+    RequestOptions,
+    TokenCallback,
+    TokenUsage,
+} from "../types";
+import { isAbortError, raceAbort } from "../abort";
+import { configurationError, httpFailure } from "../resilience";
+import { readErrorJson, readLines, streamingRequest } from "../streaming";
+
+const ANTHROPIC_BASE_URL = "https://api.anthropic.com";
+const ANTHROPIC_VERSION = "2023-06-01";
+/** The Messages API requires an explicit output cap on every request. */
+const DEFAULT_MAX_TOKENS = 4096;
+
+export interface AnthropicProviderConfig {
+    apiKey: string;
+    chatModel: string;
+    /** Overrides the API host, e.g. to point at a local mock server. */
+    baseUrl?: string;
+    maxTokens?: number;
+}
+
+interface AnthropicMessage {
+    role: "user" | "assistant";
+    content: string;
+}
+
+/**
+ * Convert an OpenAI-style conversation into the Messages API shape: system
+ * turns are lifted into the top-level `system` field, consecutive turns from
+ * the same role are merged (the API requires alternating roles), and leading
+ * assistant turns are dropped since a conversation must open with the user.
+ * This provider doesn't offer tools, so any tool results in the history are
+ * passed along as plain user text.
+ */
+function toAnthropicMessages(messages: LLMChatMessage[]): { system: string; messages: AnthropicMessage[] } {
+    const systemParts: string[] = [];
+    const turns: AnthropicMessage[] = [];
+
+    for (const message of messages) {
+        if (message.role === "system") {
+            systemParts.push(message.content);
+            continue;
+        }
+        const role = message.role === "tool" ? "user" : message.role;
+        const content = message.role === "tool" ? `Result of ${message.toolName ?? "tool"}:\n${message.content}` : message.content;
+        const last = turns[turns.length - 1];
+        if (last && last.role === role) {
+            last.content += `\n\n${content}`;
+        } else if (turns.length > 0 || role === "user") {
+            turns.push({ role, content });
+        }
+    }
+
+    return { system: systemParts.join("\n\n"), messages: turns };
+}
+
+/**
+ * Extract the message from an Anthropic error body
+ * (`{ type: "error", error: { type, message } }`), falling back to the HTTP
+ * status.
+ */
+function extractErrorMessage(status: number, json: unknown): string {
+    if (json && typeof json === "object" && "error" in json) {
+        const err = (json as { error?: { message?: string; type?: string } }).error;
+        if (err && typeof err.message === "string") {
+            return err.type ? `${err.type}: ${err.message}` : err.message;
+        }
+    }
+    return `Request failed with status ${status}`;
+}
+
+/** Join the text blocks of a Messages API `content` array. */
+function extractText(json: unknown): string {
+    const content = (json as { content?: Array<{ type?: string; text?: string }> } | null)?.content;
+    if (!Array.isArray(content)) {
+        return "";
+    }
+    return content
+        .filter(block => block.type === "text" && typeof block.text === "string")
+        .map(block => block.text)
+        .join("");
+}
+
+/** Read the `usage` block (`input_tokens`/`output_tokens`) of a Messages API response. */
+function extractUsage(json: unknown): TokenUsage | undefined {
+    const usage = (json as { usage?: { input_tokens?: number; output_tokens?: number } } | null)?.usage;
+    if (!usage || typeof usage.input_tokens !== "number") {
+        return undefined;
+    }
+    return { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens ?? 0 };
+}
+
+/**
+ * Chat provider for Anthropic's native Messages API (`/v1/messages`).
+ * Anthropic has no embeddings endpoint, so this is chat-only.
+ * See https://docs.anthropic.com/en/api/messages.
+ */
+export class AnthropicProvider implements ChatProvider, ModelLister {
+    private baseUrl: string;
+
+    constructor(private config: AnthropicProviderConfig) {
+        this.baseUrl = (config.baseUrl ?? ANTHROPIC_BASE_URL).trim().replace(/\/+$/, "");
+    }
+
+    private buildHeaders(): Record<string, string> {
+        return {
+            "x-api-key": this.config.apiKey,
+            "anthropic-version": ANTHROPIC_VERSION,
+        };
+    }
+
+    /**
+     * Build the request body. `seed` has no Messages API equivalent and is
+     * dropped; recent models reject `temperature` and `top_p` together, so
+     * `top_p` is only sent when no temperature is set.
+     */
+    private buildBody(messages: LLMChatMessage[], stream: boolean, options?: ChatRequestOptions): string {
+        const converted = toAnthropicMessages(messages);
+        return JSON.stringify({
+            model: this.config.chatModel,
+            max_tokens: options?.maxTokens ?? this.config.maxTokens ?? DEFAULT_MAX_TOKENS,
+            ...(converted.system ? { system: converted.system } : {}),
+            messages: converted.messages,
+            ...(options?.temperature !== undefined ? { temperature: options.temperature } : {}),
+            ...(options?.topP !== undefined && options.temperature === undefined ? { top_p: options.topP } : {}),
+            ...(options?.stop && options.stop.length > 0 ? { stop_sequences: options.stop } : {}),
+            stream,
+        });
+    }
+
+    async sendChatMessage(messages: LLMChatMessage[], options?: ChatRequestOptions): Promise<LLMResponse> {
+        if (!this.config.apiKey) {
+            return { content: "", ...configurationError("API key not set") };
+        }
+
+        try {
+            const response = await raceAbort(requestUrl({
+                url: `${this.baseUrl}/v1/messages`,
+                method: "POST",
+                contentType: "application/json",
+                headers: this.buildHeaders(),
+                body: this.buildBody(messages, false, options),
+                throw: false,
+            }), options?.signal);
+
+            if (response.status >= 400) {
+                return { content: "", ...httpFailure(response.status, extractErrorMessage(response.status, response.json), response.headers) };
+            }
+
+            const content = extractText(response.json);
+            if (!content) {
+                return { content: "", error: "No response from model", status: response.status };
+            }
+
+            return { content, usage: extractUsage(response.json) };
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+            return { content: "", error: errorMessage };
+        }
+    }
+
+    /** List the available Claude models (`GET /v1/models`); all are chat models. */
+    async listModels(options?: RequestOptions): Promise<ModelListResponse> {
+        if (!this.config.apiKey) {
+            return { models: [], ...configurationError("API key not set") };
+        }
+
+        try {
+            const response = await raceAbort(requestUrl({
+                url: `${this.baseUrl}/v1/models?limit=1000`,
+                method: "GET",
+                headers: this.buildHeaders(),
+                throw: false,
+            }), options?.signal);
+
+            if (response.status >= 400) {
+                return { models: [], ...httpFailure(response.status, extractErrorMessage(response.status, response.json), response.headers) };
+            }
+
+            const data = (response.json as { data?: Array<{ id?: string; display_name?: string }> } | null)?.data ?? [];
+            const models = data
+                .filter(entry => typeof entry.id === "string")
+                .map(entry => ({ id: entry.id as string, name: entry.display_name, capabilities: ["chat" as const] }));
+            return { models };
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+            return { models: [], error: errorMessage };
+        }
+    }
+
+    /**
+     * Stream a chat answer over server-sent events. Text arrives in
+     * `content_block_delta` events carrying a `text_delta`; failures mid-stream
+     * arrive as an `error` event. Input tokens are reported in `message_start`
+     * and the output count in the closing `message_delta`.
+     */
+    async streamChatMessage(messages: LLMChatMessage[], onToken: TokenCallback, options?: ChatRequestOptions): Promise<LLMResponse> {
+        if (!this.config.apiKey) {
+            return { content: "", ...configurationError("API key not set") };
+        }
+
+        try {
+            const response = await streamingRequest(`${this.baseUrl}/v1/messages`, {
+                method: "POST",
+                headers: {
+                    ...this.buildHeaders(),
+                    "Content-Type": "application/json",
+                    // Required for requests made from a browser context via fetch.
+                    "anthropic-dangerous-direct-browser-access": "true",
+                },
+                body: this.buildBody(messages, true, options),
+                signal: options?.signal,
+            });
+
+            if (!response.ok || !response.body) {
+                const errorMessage = extractErrorMessage(response.status, await readErrorJson(response));
+                return { content: "", ...httpFailure(response.status, errorMessage, response.headers) };
+            }
+
+            let content = "";
+            let promptTokens: number | undefined;
+            let completionTokens = 0;
+            let streamError: string | undefined;
+            await readLines(response.body, (line) => {
+                // Event names are repeated in each data payload's `type`, so
+                // only the data lines need to be read.
+                if (!line.startsWith("data:")) return;
+
+                let event: {
+                    type?: string;
+                    delta?: { type?: string; text?: string };
+                    message?: { usage?: { input_tokens?: number } };
+                    usage?: { output_tokens?: number };
+                };
+                try {
+                    event = JSON.parse(line.slice(5).trim()) as typeof event;
+                } catch {
+                    return;
+                }
+                if (event.type === "error") {
+                    streamError = extractErrorMessage(response.status, event);
+                    return;
+                }
+                if (event.type === "message_start") {
+                    promptTokens = event.message?.usage?.input_tokens;
+                } else if (event.type === "message_delta") {
+                    completionTokens = event.usage?.output_tokens ?? completionTokens;
+                }
+                if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+                    content += event.delta.text;
+                    onToken(event.delta.text);
+                }
+            });
+
+            const usage = promptTokens !== undefined ? { promptTokens, completionTokens } : undefined;
+            if (streamError) {
+                return { content, error: streamError, usage };
+            }
+            if (!content) {
+                return { content: "", error: "No response from model", status: response.status };
+            }
+            return { content, usage };
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+            return { content: "", error: errorMessage };
+        }
+    }
+}
@@ -0,0 +1,242 @@
+import type { ProviderDefinition, ProviderSettingField, ProviderValues } from "../registry";
+import { createOpenRouterProvider } from "./openrouter";
+import { createOpenAIProvider } from "./openai";
+import { AnthropicProvider } from "./anthropic";
+import { OllamaProvider } from "./ollama";
+import { createCustomProvider } from "./custom";
+import { DEFAULT_LOCAL_HASH_MODEL, LocalHashEmbeddingProvider } from "./local-hash";
+
+const hasValue = (value: string | undefined) => (value ?? "").trim().length > 0;
+
+const openRouter = (values: ProviderValues, embeddingDimensions?: number) => createOpenRouterProvider({
+    apiKey: values.apiKey ?? "",
+    chatModel: values.chatModel ?? "",
+    embeddingModel: values.embeddingModel ?? "",
+    embeddingDimensions,
+});
+
+const openAI = (values: ProviderValues, embeddingDimensions?: number) => createOpenAIProvider({
+    apiKey: values.apiKey ?? "",
+    chatModel: values.chatModel ?? "",
+    embeddingModel: values.embeddingModel ?? "",
+    embeddingDimensions,
+});
+
+const anthropic = (values: ProviderValues) => new AnthropicProvider({
+    apiKey: values.apiKey ?? "",
+    chatModel: values.chatModel ?? "",
+});
+
+const ollama = (values: ProviderValues) => new OllamaProvider({
+    baseUrl: values.baseUrl ?? "",
+    chatModel: values.chatModel ?? "",
+    embeddingModel: values.embeddingModel ?? "",
+});
+
+const localHash = (values: ProviderValues) => new LocalHashEmbeddingProvider(values.embeddingModel || DEFAULT_LOCAL_HASH_MODEL);
+
+const custom = (values: ProviderValues) => createCustomProvider({
+    baseUrl: values.baseUrl ?? "",
+    apiKey: values.apiKey ?? "",
+    headers: values.headers ?? "",
+    chatModel: values.chatModel ?? "",
+    embeddingModel: values.embeddingModel ?? "",
+});
+
+/** Fields shared by the hosted providers: an API key and the two model names. */
+function hostedFields(
+    apiKey: Omit<ProviderSettingField, "key" | "kind">,
+    chatModel: Omit<ProviderSettingField, "key" | "kind" | "name">,
+    embeddingModel?: Omit<ProviderSettingField, "key" | "kind" | "name">
+): ProviderSettingField[] {
+    const fields: ProviderSettingField[] = [
+        { key: "apiKey", kind: "secret", ...apiKey },
+        { key: "chatModel", kind: "chat-model", name: "Chat model", ...chatModel },
+    ];
+    if (embeddingModel) {
+        fields.push({ key: "embeddingModel", kind: "embedding-model", name: "Embedding model", ...embeddingModel });
+    }
+    return fields;
+}
+
+/**
+ * The providers that ship with the plugin. Their values stay in the
+ * top-level settings they used before the registry existed.
+ */
+export const BUILT_IN_PROVIDERS: ProviderDefinition[] = [
+    {
+        id: "openrouter",
+        label: "OpenRouter",
+        capabilities: { chat: true, embeddings: true, streaming: true, tools: true, embeddingDimensions: true },
+        fields: hostedFields(
+            { name: "OpenRouter API key", desc: "Get one at openrouter.ai.", placeholder: "sk-or-...", settingsKey: "openRouterApiKey" },
+            {
+                desc: "The model ID to use for chat (e.g., google/gemini-2.5-flash, openai/gpt-4o, anthropic/claude-3.5-sonnet).",
+                placeholder: "google/gemini-2.5-flash",
+                settingsKey: "openRouterModel",
+            },
+            {
+                desc: "The model ID to use for embeddings (e.g., openai/text-embedding-3-small).",
+                placeholder: "openai/text-embedding-3-small",
+                settingsKey: "openRouterEmbeddingModel",
+            }
+        ),
+        isConfigured: values => hasValue(values.apiKey),
+        createChatProvider: values => openRouter(values),
+        createEmbeddingProvider: (values, options) => openRouter(values, options.dimensions),
+        listModels: (values, options) => openRouter(values).listModels(options),
+    },
+    {
+        id: "openai",
+        label: "OpenAI",
+        capabilities: { chat: true, embeddings: true, streaming: true, tools: true, embeddingDimensions: true },
+        fields: hostedFields(
+            { name: "OpenAI API key", desc: "Get one at platform.openai.com.", placeholder: "sk-...", settingsKey: "openAIApiKey" },
+            {
+                desc: "The model ID to use for chat (e.g., gpt-4o-mini, gpt-4o).",
+                placeholder: "gpt-4o-mini",
+                settingsKey: "openAIModel",
+            },
+            {
+                desc: "The model ID to use for embeddings (e.g., text-embedding-3-small).",
+                placeholder: "text-embedding-3-small",
+                settingsKey: "openAIEmbeddingModel",
+            }
+        ),
+        isConfigured: values => hasValue(values.apiKey),
+        createChatProvider: values => openAI(values),
+        createEmbeddingProvider: (values, options) => openAI(values, options.dimensions),
+        listModels: (values, options) => openAI(values).listModels(options),
+    },
+    {
+        id: "anthropic",
+        label: "Anthropic",
+        capabilities: { chat: true, embeddings: false, streaming: true, tools: false },
+        fields: hostedFields(
+            { name: "Anthropic API key", desc: "Get one at console.anthropic.com.", placeholder: "sk-ant-...", settingsKey: "anthropicApiKey" },
+            {
+                desc: "The model ID to use for chat (e.g., claude-sonnet-4-5, claude-haiku-4-5).",
+                placeholder: "claude-sonnet-4-5",
+                settingsKey: "anthropicModel",
+            }
+        ),
+        isConfigured: values => hasValue(values.apiKey),
+        createChatProvider: anthropic,
+        listModels: (values, options) => anthropic(values).listModels(options),
+    },
+    {
+        id: "ollama",
+        label: "Ollama (local)",
+        capabilities: { chat: true, embeddings: true, streaming: true, tools: true },
+        fields: [
+            {
+                key: "baseUrl",
+                kind: "text",
+                name: "Ollama base URL",
+                desc: "Where your local Ollama server is running. No API key is needed, but Ollama must be running and reachable at this address.",
+                placeholder: "http://localhost:11434",
+                settingsKey: "ollamaBaseUrl",
+            },
+            {
+                key: "chatModel",
+                kind: "chat-model",
+                name: "Chat model",
+                desc: "The name of a model you have pulled locally (e.g., llama3.1, mistral, qwen2.5).",
+                placeholder: "llama3.1",
+                settingsKey: "ollamaModel",
+            },
+            {
+                key: "embeddingModel",
+                kind: "embedding-model",
+                name: "Embedding model",
+                desc: "The name of a local embedding model you have pulled (e.g., nomic-embed-text).",
+                placeholder: "nomic-embed-text",
+                settingsKey: "ollamaEmbeddingModel",
+            },
+        ],
+        isConfigured: values => hasValue(values.baseUrl),
+        isRemote: () => false,
+        createChatProvider: ollama,
+        createEmbeddingProvider: ollama,
+        listModels: (values, options) => ollama(values).listModels(options),
+    },
+    {
+        id: "custom",
+        label: "Custom (OpenAI-compatible)",
+        capabilities: { chat: true, embeddings: true, streaming: true, tools: true },
+        fields: [
+            {
+                key: "baseUrl",
+                kind: "text",
+                name: "Base URL",
+                desc: "The API root of your OpenAI-compatible server (for example llama.cpp server or vLLM), usually ending in /v1.",
+                placeholder: "http://localhost:1234/v1",
+                settingsKey: "customBaseUrl",
+            },
+            {
+                key: "apiKey",
+                kind: "secret",
+                name: "API key (optional)",
+                desc: "Only needed if your server checks one. Sent as a Bearer token.",
+                placeholder: "Leave empty if not required",
+                settingsKey: "customApiKey",
+            },
+            {
+                key: "headers",
+                kind: "textarea",
+                name: "Extra headers",
+                desc: "Additional HTTP headers sent with every request, one per line in the form header-name: value.",
+                placeholder: "X-Gateway-Token: abc123",
+                settingsKey: "customHeaders",
+            },
+            {
+                key: "chatModel",
+                kind: "chat-model",
+                name: "Chat model",
+                desc: "The model name your server expects for chat (as listed by its /models endpoint).",
+                placeholder: "qwen2.5-7b-instruct",
+                settingsKey: "customModel",
+            },
+            {
+                key: "embeddingModel",
+                kind: "embedding-model",
+                name: "Embedding model",
+                desc: "The embedding model name your server expects (as listed by its /models endpoint).",
+                placeholder: "nomic-embed-text-v1.5",
+                settingsKey: "customEmbeddingModel",
+            },
+        ],
+        isConfigured: values => hasValue(values.baseUrl),
+        // Local when it points at this machine.
+        isRemote: values => {
+            try {
+                const host = new URL((values.baseUrl ?? "").trim()).hostname;
+                return !["localhost", "127.0.0.1", "[::1]"].includes(host);
+            } catch {
+                return true;
+            }
+        },
+        createChatProvider: custom,
+        createEmbeddingProvider: custom,
+        listModels: (values, options) => custom(values).listModels(options),
+    },
+    {
+        id: "local",
+        label: "Built-in (no server, keyword based)",
+        capabilities: { chat: false, embeddings: true, streaming: false, tools: false },
+        fields: [
+            {
+                key: "embeddingModel",
+                kind: "embedding-model",
+                name: "Vector size",
+                desc: "Embeddings are computed inside Obsidian from the words in each note, so nothing leaves your device and no setup is needed. Search then matches shared words and word fragments rather than meaning. Longer vectors mix up fewer words but take more space.",
+                placeholder: DEFAULT_LOCAL_HASH_MODEL,
+                defaultValue: DEFAULT_LOCAL_HASH_MODEL,
+            },
+        ],
+        isConfigured: () => true,
+        isRemote: () => false,
+        createEmbeddingProvider: localHash,
+        listModels: values => localHash(values).listModels(),
+    },
+];
@@ -0,0 +1,48 @@
+import { OpenAICompatibleProvider } from "./openai-compatible";
+
+export interface CustomProviderConfig {
+    /** e.g. "http://localhost:1234/v1" (LM Studio) or "http://localhost:8000/v1" (vLLM) */
+    baseUrl: string;
+    /** Optional; many self-hosted servers don't check it. */
+    apiKey: string;
+    /** Extra headers, one `Name: value` per line. */
+    headers: string;
+    chatModel: string;
+    embeddingModel: string;
+}
+
+/**
+ * Parse `Name: value` lines into a header map. Blank lines, lines starting
+ * with `#` and lines without a colon are ignored.
+ */
+export function parseHeaderLines(text: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const rawLine of text.split("\n")) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith("#")) continue;
+        const colon = line.indexOf(":");
+        if (colon <= 0) continue;
+        const name = line.slice(0, colon).trim();
+        const value = line.slice(colon + 1).trim();
+        if (name) {
+            headers[name] = value;
+        }
+    }
+    return headers;
+}
+
+/**
+ * Provider for any self-hosted or third-party server that speaks the OpenAI
+ * wire format (LM Studio, llama.cpp server, vLLM, ...), at a user-supplied
+ * base URL. Unlike the hosted providers, the API key is optional.
+ */
+export function createCustomProvider(config: CustomProviderConfig): OpenAICompatibleProvider {
+    return new OpenAICompatibleProvider({
+        baseUrl: config.baseUrl.trim().replace(/\/+$/, ""),
+        apiKey: config.apiKey.trim(),
+        chatModel: config.chatModel,
+        embeddingModel: config.embeddingModel,
+        requireApiKey: false,
+        headers: parseHeaderLines(config.headers),
+    });
+}
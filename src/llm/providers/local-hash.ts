@@ -0,0 +1,98 @@
+import type { EmbeddingProvider, EmbeddingResponse, ModelListResponse, RequestOptions } from "../types";
+import { tokenize } from "../../indexer/lexical-index";
+import { createAbortError } from "../abort";
+import { fnv1a } from "../../utils/hash";
+import { configurationError } from "../resilience";
+
+/**
+ * Embeddings computed in-process with the hashing trick: every term, pair of
+ * neighbouring terms and character trigram of a text is hashed to one of a
+ * fixed number of dimensions, and the text's vector is the weighted sum of
+ * those features, normalized to unit length. Nothing leaves the machine and
+ * no server or model download is needed, and the same text always gets the
+ * same vector.
+ *
+ * This only matches shared words and word fragments, so it finds notes that
+ * use the query's vocabulary but not paraphrases; a real embedding model is
+ * much better at that. There is no corpus-wide IDF, since each text is
+ * embedded on its own and a vector must not change as the vault does; stop
+ * words are dropped by {@link tokenize} instead.
+ */
+
+/** Model names offered for this provider, by vector length. */
+export const LOCAL_HASH_MODELS: Record<string, number> = {
+    "hashed-256": 256,
+    "hashed-512": 512,
+    "hashed-1024": 1024,
+};
+
+export const DEFAULT_LOCAL_HASH_MODEL = "hashed-512";
+
+/** Feature weights relative to a single term. */
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/** Embed one text into a unit vector of `dimension` values. */
+export function hashEmbed(text: string, dimension: number): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) ?? 0) + weight);
+
+    const tokens = tokenize(text);
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i] ?? "";
+        add(`w:${token}`, 1);
+        if (i > 0) {
+            add(`b:${tokens[i - 1] ?? ""} ${token}`, BIGRAM_WEIGHT);
+        }
+        // Trigrams let "index", "indexes" and "indexing" share most features
+        const padded = `#${token}#`;
+        for (let j = 0; j + 3 <= padded.length; j++) {
+            add(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+        }
+    }
+
+    const vector: number[] = new Array<number>(dimension).fill(0);
+    for (const [feature, count] of counts) {
+        const hash = fnv1a(feature);
+        // The top bit picks the sign, so unrelated features that collide
+        // tend to cancel out instead of adding up.
+        const sign = hash & 0x80000000 ? -1 : 1;
+        const index = hash % dimension;
+        // Sublinear term frequency: repeating a word adds less and less
+        vector[index] = (vector[index] ?? 0) + sign * Math.log1p(count);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * Embedding provider backed by {@link hashEmbed}. An empty text, or one with
+ * only stop words, gets an all-zero vector, which matches nothing.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+    constructor(private model: string) {}
+
+    getEmbeddings(texts: string[], options?: RequestOptions): Promise<EmbeddingResponse> {
+        if (options?.signal?.aborted) {
+            return Promise.reject(createAbortError());
+        }
+        const dimension = LOCAL_HASH_MODELS[this.model];
+        if (!dimension) {
+            return Promise.resolve({
+                embeddings: [],
+                ...configurationError(`Unknown built-in embedding model "${this.model}". Choose one of ${Object.keys(LOCAL_HASH_MODELS).join(", ")}.`),
+            });
+        }
+        return Promise.resolve({
+            embeddings: texts.map(text => hashEmbed(text, dimension)),
+            model: this.model,
+        });
+    }
+
+    listModels(): Promise<ModelListResponse> {
+        return Promise.resolve({
+            models: Object.keys(LOCAL_HASH_MODELS).map(id => ({ id, capabilities: ["embedding"] })),
+        });
+    }
+}
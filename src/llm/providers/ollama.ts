@@ -1,5 +1,23 @@
 import { requestUrl } from "obsidian";
-import { LLMChatMessage, ChatProvider, EmbeddingProvider, EmbeddingResponse, LLMResponse } from "../types";
+import {
+    LLMChatMessage,
+    ChatProvider,
+    ChatRequestOptions,
+    EmbeddingProvider,
+    EmbeddingResponse,
+    LLMResponse,
+    ModelListResponse,
+    ModelLister,
+    RequestOptions,
+    ResponseStatus,
+    TokenCallback,
+    TokenUsage,
+    ToolCall,
+} from "../types";
+import { isAbortError, raceAbort } from "../abort";
+import { httpFailure } from "../resilience";
+import { inferCapabilities } from "../models";
+import { readErrorJson, readLines, streamingRequest } from "../streaming";
 
 export interface OllamaProviderConfig {
     /** e.g. "http://localhost:11434" */
@@ -21,53 +39,373 @@ function describeConnectionError(baseUrl: string, error: unknown): string {
     return message;
 }
 
+/** Details about one installed model, from `/api/show`. */
+export interface OllamaModelDetails extends ResponseStatus {
+    /** Maximum context the model supports, in tokens. */
+    contextLength?: number;
+    /** e.g. "8.0B" */
+    parameterSize?: string;
+    /** e.g. "Q4_K_M" */
+    quantization?: string;
+    /** Reported by newer Ollama versions, e.g. ["completion", "tools"] or ["embedding"]. */
+    capabilities?: string[];
+}
+
+/** One progress update while pulling a model. */
+export interface OllamaPullProgress {
+    /** e.g. "pulling manifest", "pulling <digest>", "verifying sha256 digest", "success" */
+    status: string;
+    /** Bytes downloaded and total bytes of the layer currently downloading. */
+    completed?: number;
+    total?: number;
+}
+
+/**
+ * Map generation options to Ollama's request fields: sampling settings go in
+ * the `options` object (`num_predict` is the output cap), `keep_alive` and a
+ * response schema (`format`) at the top level. A bare number for `keep_alive` is seconds, so numeric strings
+ * like "-1" are sent as numbers; anything else is a duration like "10m".
+ */
+function buildGenerationParams(options?: ChatRequestOptions): Record<string, unknown> {
+    const modelOptions: Record<string, unknown> = {};
+    if (options?.temperature !== undefined) modelOptions.temperature = options.temperature;
+    if (options?.topP !== undefined) modelOptions.top_p = options.topP;
+    if (options?.maxTokens !== undefined) modelOptions.num_predict = options.maxTokens;
+    if (options?.stop && options.stop.length > 0) modelOptions.stop = options.stop;
+    if (options?.seed !== undefined) modelOptions.seed = options.seed;
+    if (options?.numCtx !== undefined) modelOptions.num_ctx = options.numCtx;
+
+    const params: Record<string, unknown> = {};
+    if (Object.keys(modelOptions).length > 0) params.options = modelOptions;
+    if (options?.responseFormat) params.format = options.responseFormat.schema;
+    const keepAlive = options?.keepAlive?.trim();
+    if (keepAlive) params.keep_alive = /^-?\d+$/.test(keepAlive) ? Number(keepAlive) : keepAlive;
+    return params;
+}
+
+/**
+ * Convert messages to Ollama's chat shape. Tool calls carry their arguments
+ * as an object, and tool results are matched to calls by `tool_name` rather
+ * than by id.
+ */
+function toOllamaMessages(messages: LLMChatMessage[]): Array<Record<string, unknown>> {
+    return messages.map(message => {
+        if (message.role === "tool") {
+            return { role: "tool", content: message.content, tool_name: message.toolName };
+        }
+        if (message.toolCalls && message.toolCalls.length > 0) {
+            return {
+                role: message.role,
+                content: message.content,
+                tool_calls: message.toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } })),
+            };
+        }
+        return { role: message.role, content: message.content };
+    });
+}
+
+interface OllamaChatMessage {
+    content?: string;
+    tool_calls?: Array<{ id?: string; function?: { name?: string; arguments?: Record<string, unknown> } }>;
+}
+
+/** Read the tool calls of a chat response; older servers don't send ids, so one is made up. */
+function extractToolCalls(message: OllamaChatMessage | undefined): ToolCall[] | undefined {
+    const calls: ToolCall[] = [];
+    for (const [index, call] of (message?.tool_calls ?? []).entries()) {
+        const name = call.function?.name;
+        if (typeof name !== "string") continue;
+        calls.push({ id: call.id ?? `call_${index}`, name, arguments: call.function?.arguments ?? {} });
+    }
+    return calls.length > 0 ? calls : undefined;
+}
+
+/**
+ * Read Ollama's token counts (`prompt_eval_count`/`eval_count`), reported on
+ * a non-streamed response or on the final `done` chunk of a stream.
+ */
+function extractUsage(json: unknown): TokenUsage | undefined {
+    const counts = json as { prompt_eval_count?: number; eval_count?: number } | null;
+    if (typeof counts?.prompt_eval_count !== "number") {
+        return undefined;
+    }
+    return { promptTokens: counts.prompt_eval_count, completionTokens: counts.eval_count ?? 0 };
+}
+
 /**
  * Chat + embedding provider for a local Ollama server. No API key is
  * required; only a reachable base URL. See https://docs.ollama.com/api.
  */
-export class OllamaProvider implements ChatProvider, EmbeddingProvider {
+export class OllamaProvider implements ChatProvider, EmbeddingProvider, ModelLister {
+    /** Only models whose template supports tools accept them; others fail with an error. */
+    readonly supportsTools = true;
     private baseUrl: string;
 
     constructor(private config: OllamaProviderConfig) {
         this.baseUrl = normalizeBaseUrl(config.baseUrl);
     }
 
-    async sendChatMessage(messages: LLMChatMessage[]): Promise<LLMResponse> {
+    async sendChatMessage(messages: LLMChatMessage[], options?: ChatRequestOptions): Promise<LLMResponse> {
         try {
-            const response = await requestUrl({
+            const response = await raceAbort(requestUrl({
                 url: `${this.baseUrl}/api/chat`,
                 method: "POST",
                 contentType: "application/json",
                 body: JSON.stringify({
                     model: this.config.chatModel,
-                    messages,
+                    messages: toOllamaMessages(messages),
+                    ...buildGenerationParams(options),
+                    ...(options?.tools && options.tools.length > 0
+                        ? { tools: options.tools.map(tool => ({ type: "function", function: tool })) }
+                        : {}),
                     stream: false,
                 }),
                 throw: false,
-            });
+            }), options?.signal);
 
             if (response.status >= 400) {
-                return { content: "", error: response.json?.error ?? `Request failed with status ${response.status}` };
+                const error = (response.json as { error?: string } | null)?.error;
+                return {
+                    content: "",
+                    ...httpFailure(response.status, error ?? `Request failed with status ${response.status}`, response.headers),
+                };
             }
 
-            const content = response.json?.message?.content;
-            if (!content) {
-                return { content: "", error: "No response from model" };
+            const message = (response.json as { message?: OllamaChatMessage } | null)?.message;
+            const content = message?.content ?? "";
+            const toolCalls = extractToolCalls(message);
+            if (!content && !toolCalls) {
+                return { content: "", error: "No response from model", status: response.status };
             }
 
-            return { content };
+            return { content, toolCalls, usage: extractUsage(response.json) };
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            return { content: "", error: describeConnectionError(this.baseUrl, error) };
+        }
+    }
+
+    /**
+     * Stream a chat answer. Ollama streams newline-delimited JSON objects,
+     * each carrying a `message.content` delta, ending with `done: true`.
+     */
+    async streamChatMessage(messages: LLMChatMessage[], onToken: TokenCallback, options?: ChatRequestOptions): Promise<LLMResponse> {
+        try {
+            const response = await streamingRequest(`${this.baseUrl}/api/chat`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    model: this.config.chatModel,
+                    messages: toOllamaMessages(messages),
+                    ...buildGenerationParams(options),
+                    stream: true,
+                }),
+                signal: options?.signal,
+            });
+
+            if (!response.ok || !response.body) {
+                const json = await readErrorJson(response) as { error?: string } | null;
+                return {
+                    content: "",
+                    ...httpFailure(response.status, json?.error ?? `Request failed with status ${response.status}`, response.headers),
+                };
+            }
+
+            let content = "";
+            let usage: TokenUsage | undefined;
+            let streamError: string | undefined;
+            await readLines(response.body, (line) => {
+                let part: { message?: { content?: string }; error?: string; done?: boolean };
+                try {
+                    part = JSON.parse(line) as typeof part;
+                } catch {
+                    return;
+                }
+                if (part.error) {
+                    streamError = part.error;
+                    return;
+                }
+                if (part.done) {
+                    usage = extractUsage(part);
+                }
+                const token = part.message?.content;
+                if (token) {
+                    content += token;
+                    onToken(token);
+                }
+            });
+
+            if (streamError) {
+                return { content, error: streamError, usage };
+            }
+            if (!content) {
+                return { content: "", error: "No response from model", status: response.status };
+            }
+            return { content, usage };
         } catch (error) {
+            if (isAbortError(error)) throw error;
             return { content: "", error: describeConnectionError(this.baseUrl, error) };
         }
     }
 
-    async getEmbeddings(texts: string[]): Promise<EmbeddingResponse> {
+    /**
+     * List locally installed models (`GET /api/tags`). The listing doesn't say
+     * which models are embedding models, so that is inferred from the name
+     * and model family.
+     */
+    async listModels(options?: RequestOptions): Promise<ModelListResponse> {
+        try {
+            const response = await raceAbort(requestUrl({
+                url: `${this.baseUrl}/api/tags`,
+                method: "GET",
+                throw: false,
+            }), options?.signal);
+
+            if (response.status >= 400) {
+                const error = (response.json as { error?: string } | null)?.error;
+                return {
+                    models: [],
+                    ...httpFailure(response.status, error ?? `Request failed with status ${response.status}`, response.headers),
+                };
+            }
+
+            const entries = (response.json as {
+                models?: Array<{ name?: string; size?: number; details?: { family?: string; families?: string[] | null } }>;
+            } | null)?.models ?? [];
+            const models = entries
+                .filter(entry => typeof entry.name === "string")
+                .map(entry => {
+                    const name = entry.name as string;
+                    const families = [...(entry.details?.families ?? []), entry.details?.family ?? ""];
+                    return { id: name, capabilities: inferCapabilities(name, families), sizeBytes: entry.size };
+                });
+            return { models };
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            return { models: [], error: describeConnectionError(this.baseUrl, error) };
+        }
+    }
+
+    /**
+     * Describe an installed model (`POST /api/show`). The context length is
+     * read from `model_info`, whose key is prefixed with the architecture
+     * (e.g. `llama.context_length`).
+     */
+    async showModel(name: string, options?: RequestOptions): Promise<OllamaModelDetails> {
+        try {
+            const response = await raceAbort(requestUrl({
+                url: `${this.baseUrl}/api/show`,
+                method: "POST",
+                contentType: "application/json",
+                body: JSON.stringify({ model: name }),
+                throw: false,
+            }), options?.signal);
+
+            const json = response.json as {
+                error?: string;
+                details?: { parameter_size?: string; quantization_level?: string };
+                model_info?: Record<string, unknown>;
+                capabilities?: string[];
+            } | null;
+            if (response.status >= 400) {
+                return httpFailure(response.status, json?.error ?? `Request failed with status ${response.status}`, response.headers);
+            }
+
+            const contextKey = Object.keys(json?.model_info ?? {}).find(key => key.endsWith(".context_length"));
+            const contextLength = contextKey ? json?.model_info?.[contextKey] : undefined;
+            return {
+                contextLength: typeof contextLength === "number" ? contextLength : undefined,
+                parameterSize: json?.details?.parameter_size,
+                quantization: json?.details?.quantization_level,
+                capabilities: json?.capabilities,
+            };
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            return { error: describeConnectionError(this.baseUrl, error) };
+        }
+    }
+
+    /**
+     * Download a model (`POST /api/pull`). Ollama streams NDJSON status
+     * objects, reported through `onProgress` as they arrive; a failure
+     * partway through arrives as an `error` object.
+     */
+    async pullModel(
+        name: string,
+        onProgress: (progress: OllamaPullProgress) => void,
+        options?: RequestOptions
+    ): Promise<ResponseStatus> {
+        try {
+            const response = await streamingRequest(`${this.baseUrl}/api/pull`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ model: name, stream: true }),
+                signal: options?.signal,
+            });
+
+            if (!response.ok || !response.body) {
+                const json = await readErrorJson(response) as { error?: string } | null;
+                return httpFailure(response.status, json?.error ?? `Request failed with status ${response.status}`, response.headers);
+            }
+
+            let pullError: string | undefined;
+            let succeeded = false;
+            await readLines(response.body, (line) => {
+                let part: { status?: string; completed?: number; total?: number; error?: string };
+                try {
+                    part = JSON.parse(line) as typeof part;
+                } catch {
+                    return;
+                }
+                if (part.error) {
+                    pullError = part.error;
+                    return;
+                }
+                if (part.status) {
+                    succeeded = part.status === "success";
+                    onProgress({ status: part.status, completed: part.completed, total: part.total });
+                }
+            });
+
+            if (pullError) {
+                return { error: pullError };
+            }
+            return succeeded ? {} : { error: "Pull ended before the model was fully downloaded" };
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            return { error: describeConnectionError(this.baseUrl, error) };
+        }
+    }
+
+    /** Remove an installed model (`DELETE /api/delete`). */
+    async deleteModel(name: string, options?: RequestOptions): Promise<ResponseStatus> {
+        try {
+            const response = await raceAbort(requestUrl({
+                url: `${this.baseUrl}/api/delete`,
+                method: "DELETE",
+                contentType: "application/json",
+                body: JSON.stringify({ model: name }),
+                throw: false,
+            }), options?.signal);
+
+            if (response.status >= 400) {
+                const json = response.json as { error?: string } | null;
+                return httpFailure(response.status, json?.error ?? `Request failed with status ${response.status}`, response.headers);
+            }
+            return {};
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            return { error: describeConnectionError(this.baseUrl, error) };
+        }
+    }
+
+    async getEmbeddings(texts: string[], options?: RequestOptions): Promise<EmbeddingResponse> {
         if (texts.length === 0) {
             return { embeddings: [] };
         }
 
         try {
-            const response = await requestUrl({
+            const response = await raceAbort(requestUrl({
                 url: `${this.baseUrl}/api/embed`,
                 method: "POST",
                 contentType: "application/json",
@@ -76,17 +414,18 @@ export class OllamaProvider implements ChatProvider, EmbeddingProvider {
                     input: texts,
                 }),
                 throw: false,
-            });
+            }), options?.signal);
 
             if (response.status >= 400) {
-                const errorMessage = response.json?.error ?? `Request failed with status ${response.status}`;
+                const errorMessage = (response.json as { error?: string } | null)?.error ?? `Request failed with status ${response.status}`;
                 console.error("Embedding error:", errorMessage);
-                return { embeddings: [], error: errorMessage };
+                return { embeddings: [], ...httpFailure(response.status, errorMessage, response.headers) };
             }
 
             const embeddings: number[][] = response.json?.embeddings ?? [];
-            return { embeddings };
+            return { embeddings, usage: extractUsage(response.json) };
         } catch (error) {
+            if (isAbortError(error)) throw error;
             const errorMessage = describeConnectionError(this.baseUrl, error);
             console.error("Embedding error:", errorMessage);
             return { embeddings: [], error: errorMessage };
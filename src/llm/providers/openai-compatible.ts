@@ -1,5 +1,25 @@
 import { requestUrl } from "obsidian";
-import { LLMChatMessage, ChatProvider, EmbeddingProvider, EmbeddingResponse, LLMResponse } from "../types";
+import {
+    LLMChatMessage,
+    ChatProvider,
+    ChatRequestOptions,
+    EmbeddingProvider,
+    EmbeddingResponse,
+    LLMResponse,
+    ModelCapability,
+    ModelInfo,
+    ModelListResponse,
+    ModelLister,
+    RequestOptions,
+    TokenCallback,
+    TokenUsage,
+    ToolCall,
+    ToolDefinition,
+} from "../types";
+import { isAbortError, raceAbort } from "../abort";
+import { configurationError, httpFailure } from "../resilience";
+import { inferCapabilities } from "../models";
+import { readErrorJson, readLines, streamingRequest } from "../streaming";
 
 export interface OpenAICompatibleConfig {
     /** e.g. "https://openrouter.ai/api/v1" or "https://api.openai.com/v1" */
@@ -7,6 +27,42 @@ export interface OpenAICompatibleConfig {
     apiKey: string;
     chatModel: string;
     embeddingModel: string;
+    /**
+     * Whether requests are refused up front when `apiKey` is empty. Hosted
+     * APIs always need one; self-hosted servers often don't. Defaults to true.
+     */
+    requireApiKey?: boolean;
+    /** Extra HTTP headers sent with every request (e.g. a gateway token). */
+    headers?: Record<string, string>;
+    /**
+     * Request field for the output token cap. OpenAI itself has replaced
+     * `max_tokens` with `max_completion_tokens` (which its reasoning models
+     * require); other compatible APIs still expect `max_tokens`, the default.
+     */
+    maxTokensParam?: "max_tokens" | "max_completion_tokens";
+    /**
+     * Shorten embeddings to this many dimensions, for models that support it
+     * (OpenAI's text-embedding-3). Sent as `dimensions`; longer vectors that
+     * come back anyway are truncated and renormalized locally.
+     */
+    embeddingDimensions?: number;
+}
+
+/** OpenAI accepts at most this many stop sequences. */
+const MAX_STOP_SEQUENCES = 4;
+
+/**
+ * Keep the first `dimensions` values of an embedding and rescale it to unit
+ * length. Valid for Matryoshka-trained models, whose leading dimensions carry
+ * the most information; cosine similarity needs the renormalization.
+ */
+function truncateEmbedding(vector: number[], dimensions: number): number[] {
+    if (vector.length <= dimensions) {
+        return vector;
+    }
+    const truncated = vector.slice(0, dimensions);
+    const norm = Math.sqrt(truncated.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? truncated.map(value => value / norm) : truncated;
 }
 
 /**
@@ -24,56 +80,308 @@ function extractErrorMessage(status: number, json: unknown): string {
     return `Request failed with status ${status}`;
 }
 
+/**
+ * Read the `usage` block (`prompt_tokens`/`completion_tokens`) that
+ * OpenAI-style APIs attach to responses. Embedding responses only carry
+ * `prompt_tokens`.
+ */
+function extractUsage(json: unknown): TokenUsage | undefined {
+    const usage = (json as { usage?: { prompt_tokens?: number; completion_tokens?: number } | null } | null)?.usage;
+    if (!usage || typeof usage.prompt_tokens !== "number") {
+        return undefined;
+    }
+    return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens ?? 0 };
+}
+
+/**
+ * Convert messages to the chat completions shape. Plain turns pass through;
+ * tool calls and results use the `tool_calls` and `tool_call_id` fields, with
+ * call arguments serialized as a JSON string.
+ */
+function toOpenAIMessages(messages: LLMChatMessage[]): Array<Record<string, unknown>> {
+    return messages.map(message => {
+        if (message.role === "tool") {
+            return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+        }
+        if (message.toolCalls && message.toolCalls.length > 0) {
+            return {
+                role: message.role,
+                content: message.content || null,
+                tool_calls: message.toolCalls.map(call => ({
+                    id: call.id,
+                    type: "function",
+                    function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+                })),
+            };
+        }
+        return { role: message.role, content: message.content };
+    });
+}
+
+function toOpenAITools(tools: ToolDefinition[]): Array<Record<string, unknown>> {
+    return tools.map(tool => ({
+        type: "function",
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+}
+
+/** Parse a call's JSON-encoded arguments; anything but a JSON object becomes `{}`. */
+function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+    try {
+        const parsed: unknown = JSON.parse(raw || "{}");
+        return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+    } catch {
+        return {};
+    }
+}
+
+interface ChatCompletionMessage {
+    content?: string | null;
+    tool_calls?: Array<{ id?: string; function?: { name?: string; arguments?: string } }>;
+}
+
+/** Read the tool calls of a chat completion message, skipping malformed entries. */
+function extractToolCalls(message: ChatCompletionMessage | undefined): ToolCall[] | undefined {
+    const calls: ToolCall[] = [];
+    for (const [index, call] of (message?.tool_calls ?? []).entries()) {
+        const name = call.function?.name;
+        if (typeof name !== "string") continue;
+        calls.push({ id: call.id ?? `call_${index}`, name, arguments: parseToolArguments(call.function?.arguments) });
+    }
+    return calls.length > 0 ? calls : undefined;
+}
+
+/** An entry of `/models`; OpenRouter adds a name, context length and modalities. */
+interface ModelEntry {
+    id?: string;
+    name?: string;
+    context_length?: number;
+    architecture?: { output_modalities?: string[] };
+}
+
+/**
+ * Convert a `/models` entry. OpenRouter reports output modalities, which tell
+ * chat and embedding models apart; plain OpenAI-style listings don't, so the
+ * capability is inferred from the id.
+ */
+function toModelInfo(entry: ModelEntry & { id: string }): ModelInfo {
+    const modalities = entry.architecture?.output_modalities;
+    let capabilities: ModelCapability[];
+    if (modalities && modalities.length > 0) {
+        capabilities = modalities.includes("embeddings") ? ["embedding"] : ["chat"];
+    } else {
+        capabilities = inferCapabilities(entry.id);
+    }
+    return {
+        id: entry.id,
+        name: entry.name,
+        capabilities,
+        contextLength: entry.context_length,
+    };
+}
+
 /**
  * Chat + embedding provider for any API that mirrors OpenAI's request/response
  * shape (`/chat/completions`, `/embeddings`, Bearer auth). OpenRouter and
  * OpenAI itself both implement this shape, so they share this one class and
- * differ only by base URL.
+ * differ only by base URL. Self-hosted servers (LM Studio, llama.cpp, vLLM)
+ * use it too, via the custom provider.
  */
-export class OpenAICompatibleProvider implements ChatProvider, EmbeddingProvider {
+export class OpenAICompatibleProvider implements ChatProvider, EmbeddingProvider, ModelLister {
+    readonly supportsTools = true;
+
     constructor(private config: OpenAICompatibleConfig) {}
 
-    async sendChatMessage(messages: LLMChatMessage[]): Promise<LLMResponse> {
-        const { apiKey, baseUrl, chatModel } = this.config;
-        if (!apiKey) {
-            return { content: "", error: "API key not set" };
+    /** Whether a request can't proceed because a required API key is missing. */
+    private isMissingApiKey(): boolean {
+        return this.config.requireApiKey !== false && !this.config.apiKey;
+    }
+
+    /**
+     * Headers for every request: any configured extras, plus Bearer auth when
+     * an API key is set.
+     */
+    private buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = { ...this.config.headers };
+        if (this.config.apiKey) {
+            headers.Authorization = `Bearer ${this.config.apiKey}`;
+        }
+        return headers;
+    }
+
+    /**
+     * Map generation options to OpenAI request fields, omitting unset ones. A
+     * response format is sent in strict mode, which requires schemas to list
+     * every property as required and forbid additional ones.
+     */
+    private buildGenerationParams(options?: ChatRequestOptions): Record<string, unknown> {
+        const params: Record<string, unknown> = {};
+        if (options?.temperature !== undefined) params.temperature = options.temperature;
+        if (options?.topP !== undefined) params.top_p = options.topP;
+        if (options?.maxTokens !== undefined) params[this.config.maxTokensParam ?? "max_tokens"] = options.maxTokens;
+        if (options?.stop && options.stop.length > 0) params.stop = options.stop.slice(0, MAX_STOP_SEQUENCES);
+        if (options?.seed !== undefined) params.seed = options.seed;
+        if (options?.responseFormat) {
+            params.response_format = {
+                type: "json_schema",
+                json_schema: { name: options.responseFormat.name, schema: options.responseFormat.schema, strict: true },
+            };
+        }
+        return params;
+    }
+
+    async sendChatMessage(messages: LLMChatMessage[], options?: ChatRequestOptions): Promise<LLMResponse> {
+        const { baseUrl, chatModel } = this.config;
+        if (this.isMissingApiKey()) {
+            return { content: "", ...configurationError("API key not set") };
         }
 
         try {
-            const response = await requestUrl({
+            const response = await raceAbort(requestUrl({
                 url: `${baseUrl}/chat/completions`,
                 method: "POST",
                 contentType: "application/json",
-                headers: {
-                    Authorization: `Bearer ${apiKey}`,
-                },
+                headers: this.buildHeaders(),
                 body: JSON.stringify({
                     model: chatModel,
-                    messages,
+                    messages: toOpenAIMessages(messages),
+                    ...this.buildGenerationParams(options),
+                    ...(options?.tools && options.tools.length > 0 ? { tools: toOpenAITools(options.tools) } : {}),
                 }),
                 throw: false,
-            });
+            }), options?.signal);
 
             if (response.status >= 400) {
-                return { content: "", error: extractErrorMessage(response.status, response.json) };
+                return { content: "", ...httpFailure(response.status, extractErrorMessage(response.status, response.json), response.headers) };
             }
 
-            const responseContent = response.json?.choices?.[0]?.message?.content;
-            if (!responseContent) {
-                return { content: "", error: "No response from model" };
+            const message = (response.json as { choices?: Array<{ message?: ChatCompletionMessage }> } | null)
+                ?.choices?.[0]?.message;
+            const responseContent = message?.content ?? "";
+            const toolCalls = extractToolCalls(message);
+            if (!responseContent && !toolCalls) {
+                return { content: "", error: "No response from model", status: response.status };
             }
 
-            return { content: responseContent };
+            return { content: responseContent, toolCalls, usage: extractUsage(response.json) };
         } catch (error) {
+            if (isAbortError(error)) throw error;
             const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
             return { content: "", error: errorMessage };
         }
     }
 
-    async getEmbeddings(texts: string[]): Promise<EmbeddingResponse> {
-        const { apiKey, baseUrl, embeddingModel } = this.config;
-        if (!apiKey) {
-            return { embeddings: [], error: "API key not set" };
+    /**
+     * Stream a chat answer over server-sent events. Each `data:` line holds a
+     * JSON chunk with a `choices[0].delta.content` fragment; the stream is
+     * terminated by `data: [DONE]`.
+     */
+    async streamChatMessage(messages: LLMChatMessage[], onToken: TokenCallback, options?: ChatRequestOptions): Promise<LLMResponse> {
+        const { baseUrl, chatModel } = this.config;
+        if (this.isMissingApiKey()) {
+            return { content: "", ...configurationError("API key not set") };
+        }
+
+        try {
+            const response = await streamingRequest(`${baseUrl}/chat/completions`, {
+                method: "POST",
+                headers: {
+                    ...this.buildHeaders(),
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    model: chatModel,
+                    messages: toOpenAIMessages(messages),
+                    ...this.buildGenerationParams(options),
+                    stream: true,
+                    // Ask for a final chunk carrying token usage.
+                    stream_options: { include_usage: true },
+                }),
+                signal: options?.signal,
+            });
+
+            if (!response.ok || !response.body) {
+                const errorMessage = extractErrorMessage(response.status, await readErrorJson(response));
+                return { content: "", ...httpFailure(response.status, errorMessage, response.headers) };
+            }
+
+            let content = "";
+            let usage: TokenUsage | undefined;
+            let streamError: string | undefined;
+            await readLines(response.body, (line) => {
+                // Ignore SSE comments (e.g. OpenRouter's ": OPENROUTER PROCESSING")
+                // and any non-data fields.
+                if (!line.startsWith("data:")) return;
+                const data = line.slice(5).trim();
+                if (data === "[DONE]") return;
+
+                let chunk: unknown;
+                try {
+                    chunk = JSON.parse(data);
+                } catch {
+                    return;
+                }
+                if (chunk && typeof chunk === "object" && "error" in chunk) {
+                    streamError = extractErrorMessage(response.status, chunk);
+                    return;
+                }
+                usage = extractUsage(chunk) ?? usage;
+                const token = (chunk as { choices?: Array<{ delta?: { content?: string } }> })
+                    .choices?.[0]?.delta?.content;
+                if (token) {
+                    content += token;
+                    onToken(token);
+                }
+            });
+
+            if (streamError) {
+                return { content, error: streamError, usage };
+            }
+            if (!content) {
+                return { content: "", error: "No response from model", status: response.status };
+            }
+            return { content, usage };
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+            return { content: "", error: errorMessage };
+        }
+    }
+
+    /** List the models behind this endpoint (`GET /models`). */
+    async listModels(options?: RequestOptions): Promise<ModelListResponse> {
+        if (this.isMissingApiKey()) {
+            return { models: [], ...configurationError("API key not set") };
+        }
+
+        try {
+            const response = await raceAbort(requestUrl({
+                url: `${this.config.baseUrl}/models`,
+                method: "GET",
+                headers: this.buildHeaders(),
+                throw: false,
+            }), options?.signal);
+
+            if (response.status >= 400) {
+                return { models: [], ...httpFailure(response.status, extractErrorMessage(response.status, response.json), response.headers) };
+            }
+
+            const data = (response.json as { data?: ModelEntry[] } | null)?.data ?? [];
+            const models = data
+                .filter((entry): entry is ModelEntry & { id: string } => typeof entry?.id === "string")
+                .map(toModelInfo);
+            return { models };
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+            return { models: [], error: errorMessage };
+        }
+    }
+
+    async getEmbeddings(texts: string[], options?: RequestOptions): Promise<EmbeddingResponse> {
+        const { baseUrl, embeddingModel, embeddingDimensions } = this.config;
+        if (this.isMissingApiKey()) {
+            return { embeddings: [], ...configurationError("API key not set") };
         }
 
         if (texts.length === 0) {
@@ -81,34 +389,36 @@ export class OpenAICompatibleProvider implements ChatProvider, EmbeddingProvider
         }
 
         try {
-            const response = await requestUrl({
+            const response = await raceAbort(requestUrl({
                 url: `${baseUrl}/embeddings`,
                 method: "POST",
                 contentType: "application/json",
-                headers: {
-                    Authorization: `Bearer ${apiKey}`,
-                },
+                headers: this.buildHeaders(),
                 body: JSON.stringify({
                     model: embeddingModel,
                     input: texts,
+                    ...(embeddingDimensions ? { dimensions: embeddingDimensions } : {}),
                 }),
                 throw: false,
-            });
+            }), options?.signal);
 
             if (response.status >= 400) {
                 const errorMessage = extractErrorMessage(response.status, response.json);
                 console.error("Embedding error:", errorMessage);
-                return { embeddings: [], error: errorMessage };
+                return { embeddings: [], ...httpFailure(response.status, errorMessage, response.headers) };
             }
 
             const data: Array<{ index: number; embedding: number[] }> = response.json?.data ?? [];
 
             // Sort by index to ensure correct order
             const sortedData = [...data].sort((a, b) => a.index - b.index);
-            const embeddings = sortedData.map(item => item.embedding);
+            const embeddings = embeddingDimensions
+                ? sortedData.map(item => truncateEmbedding(item.embedding, embeddingDimensions))
+                : sortedData.map(item => item.embedding);
 
-            return { embeddings };
+            return { embeddings, usage: extractUsage(response.json) };
         } catch (error) {
+            if (isAbortError(error)) throw error;
             const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
             console.error("Embedding error:", errorMessage);
             return { embeddings: [], error: errorMessage };
@@ -6,6 +6,8 @@ export interface OpenAIProviderConfig {
     apiKey: string;
     chatModel: string;
     embeddingModel: string;
+    /** Shortened embedding length for text-embedding-3 models; unset keeps the full size. */
+    embeddingDimensions?: number;
 }
 
 export function createOpenAIProvider(config: OpenAIProviderConfig): OpenAICompatibleProvider {
@@ -14,5 +16,7 @@ export function createOpenAIProvider(config: OpenAIProviderConfig): OpenAICompat
         apiKey: config.apiKey,
         chatModel: config.chatModel,
         embeddingModel: config.embeddingModel,
+        embeddingDimensions: config.embeddingDimensions,
+        maxTokensParam: "max_completion_tokens",
     });
 }
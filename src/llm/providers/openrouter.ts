@@ -6,6 +6,8 @@ export interface OpenRouterProviderConfig {
     apiKey: string;
     chatModel: string;
     embeddingModel: string;
+    /** Shortened embedding length for text-embedding-3 models; unset keeps the full size. */
+    embeddingDimensions?: number;
 }
 
 export function createOpenRouterProvider(config: OpenRouterProviderConfig): OpenAICompatibleProvider {
@@ -14,5 +16,6 @@ export function createOpenRouterProvider(config: OpenRouterProviderConfig): Open
         apiKey: config.apiKey,
         chatModel: config.chatModel,
         embeddingModel: config.embeddingModel,
+        embeddingDimensions: config.embeddingDimensions,
     });
 }
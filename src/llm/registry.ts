@@ -0,0 +1,169 @@
+import type { MyPluginSettings } from "../settings";
+import type { ChatProvider, EmbeddingProvider, ModelListResponse, RequestOptions } from "./types";
+
+/**
+ * The provider registry: every chat and embedding backend the plugin can use
+ * is described by a {@link ProviderDefinition}, and the factory, settings tab
+ * and fallback chains work from those descriptions instead of knowing each
+ * backend. Other plugins can add backends at runtime through the registry
+ * exposed as `providers` on this plugin's instance.
+ */
+
+/** What a provider can do. Chat and embeddings need the matching constructor. */
+export interface ProviderCapabilities {
+    chat: boolean;
+    embeddings: boolean;
+    /** Answers can be streamed token by token. */
+    streaming: boolean;
+    /** The chat API accepts tool definitions (needed for agent mode). */
+    tools: boolean;
+    /** Embeddings of models that support it can be shortened with a `dimensions` parameter. */
+    embeddingDimensions?: boolean;
+}
+
+/**
+ * How a settings field is rendered. Model fields get a picker fed by the
+ * provider's model listing, and only appear in the matching section (chat or
+ * embeddings); every other field is shared by both.
+ */
+export type ProviderFieldKind = "text" | "secret" | "textarea" | "chat-model" | "embedding-model";
+
+/** A string setting whose type accepts any string, so it can hold a field value. */
+type StringSettingKey = {
+    [K in keyof MyPluginSettings]: string extends MyPluginSettings[K] ? K : never
+}[keyof MyPluginSettings];
+
+export interface ProviderSettingField {
+    /** Key of the value in {@link ProviderValues}. */
+    key: string;
+    kind: ProviderFieldKind;
+    name: string;
+    desc: string;
+    placeholder?: string;
+    /** Value used until the user enters one. */
+    defaultValue?: string;
+    /**
+     * Built-in providers keep their values in the top-level settings they
+     * have always used, so existing configurations carry over. Other
+     * providers' values live in `providerSettings`.
+     */
+    settingsKey?: StringSettingKey;
+}
+
+/** A provider's settings values, by {@link ProviderSettingField.key}. */
+export type ProviderValues = Record<string, string>;
+
+export interface EmbeddingCreateOptions {
+    /** Shortened vector length, for providers with the `embeddingDimensions` capability. */
+    dimensions?: number;
+}
+
+export interface ProviderDefinition {
+    /** Stable id stored in settings; must not change between versions. */
+    id: string;
+    /** Name shown in provider dropdowns. */
+    label: string;
+    capabilities: ProviderCapabilities;
+    /** Settings the settings tab renders for this provider, in order. */
+    fields: ProviderSettingField[];
+    /** Whether the values are complete enough to attempt a request. */
+    isConfigured(values: ProviderValues): boolean;
+    /** Whether requests leave this machine (and may cost money). Defaults to true. */
+    isRemote?(values: ProviderValues): boolean;
+    createChatProvider?(values: ProviderValues): ChatProvider;
+    createEmbeddingProvider?(values: ProviderValues, options: EmbeddingCreateOptions): EmbeddingProvider;
+    /** List the provider's models for the model pickers; omit if it can't. */
+    listModels?(values: ProviderValues, options?: RequestOptions): Promise<ModelListResponse>;
+}
+
+/**
+ * Registered provider definitions, in registration order (the order of the
+ * settings dropdowns). Listeners are told about every change, so the plugin
+ * can rebuild its providers when one is added or removed after startup.
+ */
+export class ProviderRegistry {
+    private definitions = new Map<string, ProviderDefinition>();
+    private listeners = new Set<() => void>();
+
+    constructor(definitions: ProviderDefinition[] = []) {
+        for (const definition of definitions) {
+            this.definitions.set(definition.id, definition);
+        }
+    }
+
+    /**
+     * Add a provider, replacing any registered under the same id.
+     * @returns A function that removes it again, e.g. from the registering plugin's `onunload`
+     */
+    register(definition: ProviderDefinition): () => void {
+        this.definitions.set(definition.id, definition);
+        this.notify();
+        return () => {
+            if (this.definitions.get(definition.id) === definition) {
+                this.definitions.delete(definition.id);
+                this.notify();
+            }
+        };
+    }
+
+    get(id: string): ProviderDefinition | undefined {
+        return this.definitions.get(id);
+    }
+
+    /** Providers with the given capability, in registration order. */
+    list(capability?: "chat" | "embeddings"): ProviderDefinition[] {
+        const all = [...this.definitions.values()];
+        return capability ? all.filter(definition => definition.capabilities[capability]) : all;
+    }
+
+    /** Display labels by id for the providers with a capability, for dropdowns. */
+    getLabels(capability: "chat" | "embeddings"): Record<string, string> {
+        return Object.fromEntries(this.list(capability).map(definition => [definition.id, definition.label]));
+    }
+
+    /**
+     * Call `listener` after every registration change.
+     * @returns A function that stops the calls
+     */
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private notify(): void {
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
+
+/** A provider's current values: stored ones, falling back to field defaults. */
+export function getProviderValues(settings: MyPluginSettings, definition: ProviderDefinition): ProviderValues {
+    const stored = settings.providerSettings[definition.id] ?? {};
+    const values: ProviderValues = {};
+    for (const field of definition.fields) {
+        const value = field.settingsKey ? settings[field.settingsKey] : stored[field.key];
+        values[field.key] = value ?? field.defaultValue ?? "";
+    }
+    return values;
+}
+
+/** Store one field value, in its top-level setting or in `providerSettings`. */
+export function setProviderValue(settings: MyPluginSettings, definition: ProviderDefinition, key: string, value: string): void {
+    const field = definition.fields.find(candidate => candidate.key === key);
+    if (field?.settingsKey) {
+        settings[field.settingsKey] = value;
+        return;
+    }
+    // Replace rather than mutate, so the shared default object is never changed.
+    settings.providerSettings = {
+        ...settings.providerSettings,
+        [definition.id]: { ...settings.providerSettings[definition.id], [key]: value },
+    };
+}
+
+/** The field holding a provider's chat or embedding model name, if it has one. */
+export function getModelField(definition: ProviderDefinition, capability: "chat" | "embeddings"): ProviderSettingField | undefined {
+    const kind: ProviderFieldKind = capability === "chat" ? "chat-model" : "embedding-model";
+    return definition.fields.find(field => field.kind === kind);
+}
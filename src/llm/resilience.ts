@@ -0,0 +1,395 @@
+import type {
+    ChatProvider,
+    ChatRequestOptions,
+    EmbeddingProvider,
+    EmbeddingResponse,
+    LLMChatMessage,
+    LLMResponse,
+    RequestOptions,
+    ResponseStatus,
+    TokenCallback,
+} from "./types";
+import { createAbortError, isAbortError } from "./abort";
+
+/**
+ * Retry/timeout behaviour applied to every provider call. Built from the
+ * user's settings in `llm/factory.ts`.
+ */
+export interface RetryPolicy {
+    /**
+     * Per-attempt timeout in ms; 0 disables it. For streamed answers it only
+     * covers the wait for the first token, so long answers aren't cut off.
+     */
+    timeoutMs: number;
+    /** Additional attempts after the first one fails with a retryable error. */
+    maxRetries: number;
+    /** Backoff before the first retry; doubles on every further retry. */
+    baseDelayMs: number;
+    /** Upper bound for a single backoff delay. */
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    timeoutMs: 120000,
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+};
+
+/**
+ * A `Retry-After` longer than this is not waited out: the user is usually
+ * sitting in front of the request, so it is reported as a failure instead.
+ */
+const MAX_RETRY_AFTER_MS = 60000;
+
+/** Consecutive server/network failures before the circuit opens. */
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+/** How long an open circuit rejects calls before letting a trial call through. */
+const CIRCUIT_COOLDOWN_MS = 30000;
+
+/**
+ * Parse a `Retry-After` header value (delay in seconds, or an HTTP date) into
+ * milliseconds from now.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Case-insensitive header lookup over `requestUrl` or `fetch` headers. */
+function getHeader(headers: Record<string, string> | Headers | undefined, name: string): string | undefined {
+    if (!headers) {
+        return undefined;
+    }
+    if (headers instanceof Headers) {
+        return headers.get(name) ?? undefined;
+    }
+    const lower = name.toLowerCase();
+    for (const key of Object.keys(headers)) {
+        if (key.toLowerCase() === lower) {
+            return headers[key];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Describe a failed HTTP response for the retry layer: the message plus the
+ * status and any `Retry-After` the server sent. Providers spread this into
+ * their response object.
+ */
+export function httpFailure(
+    status: number,
+    error: string,
+    headers?: Record<string, string> | Headers
+): ResponseStatus {
+    return {
+        error,
+        status,
+        retryAfterMs: parseRetryAfter(getHeader(headers, "retry-after")),
+    };
+}
+
+/**
+ * Describe a failure found before any request went out, such as a missing
+ * API key: the retry layer neither retries it nor counts it against the
+ * backend.
+ */
+export function configurationError(error: string): ResponseStatus {
+    return { error, retryable: false };
+}
+
+/**
+ * Whether a failed response is worth retrying. Network failures and timeouts
+ * (no status), rate limits and server errors are; other 4xx errors (bad key,
+ * unknown model, malformed request) and configuration errors will fail the
+ * same way again.
+ */
+function isRetryable(result: ResponseStatus): boolean {
+    if (result.retryable === false) return false;
+    const { status } = result;
+    if (status === undefined) return true;
+    return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+/** Whether a failure suggests the backend itself is down or unreachable. */
+function isServerFailure(result: ResponseStatus): boolean {
+    return result.retryable !== false && (result.status === undefined || result.status >= 500);
+}
+
+/**
+ * Tracks consecutive server/network failures for one backend. Once the
+ * threshold is reached the circuit opens and calls fail immediately, so a
+ * stopped Ollama server doesn't cost a full timeout-and-retry cycle on every
+ * request. After the cooldown a single trial call is let through while the
+ * others keep failing fast; its outcome closes the circuit or opens it for
+ * another cooldown.
+ */
+export class CircuitBreaker {
+    private consecutiveFailures = 0;
+    private openedAt: number | null = null;
+    /** Whether the trial call of an open circuit is under way. */
+    private trialInFlight = false;
+
+    /**
+     * Whether a call may go out now. Once an open circuit's cooldown has
+     * passed, the first caller to ask gets the trial call; the caller must
+     * then report its outcome or {@link releaseTrial}.
+     */
+    canRequest(): boolean {
+        if (this.openedAt === null) {
+            return true;
+        }
+        if (this.trialInFlight || Date.now() - this.openedAt < CIRCUIT_COOLDOWN_MS) {
+            return false;
+        }
+        this.trialInFlight = true;
+        return true;
+    }
+
+    /** Whether calls are being held back until the trial call completes. */
+    isAwaitingTrial(): boolean {
+        return this.trialInFlight;
+    }
+
+    /** Milliseconds until an open circuit allows a trial call. */
+    remainingCooldownMs(): number {
+        return this.openedAt === null ? 0 : Math.max(0, CIRCUIT_COOLDOWN_MS - (Date.now() - this.openedAt));
+    }
+
+    recordSuccess(): void {
+        this.consecutiveFailures = 0;
+        this.openedAt = null;
+        this.trialInFlight = false;
+    }
+
+    recordFailure(): void {
+        this.consecutiveFailures++;
+        if (this.trialInFlight || this.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+            this.openedAt = Date.now();
+        }
+        this.trialInFlight = false;
+    }
+
+    /**
+     * For a call that ended without saying anything about the backend
+     * (cancelled, or failed before a request went out): the next caller may
+     * make the trial call instead.
+     */
+    releaseTrial(): void {
+        this.trialInFlight = false;
+    }
+}
+
+/**
+ * Circuit breakers shared per backend key (e.g. "ollama"), so that chat and
+ * embeddings against the same server trip together, and state survives the
+ * providers being rebuilt on every settings save.
+ */
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(key: string): CircuitBreaker {
+    let breaker = breakers.get(key);
+    if (!breaker) {
+        breaker = new CircuitBreaker();
+        breakers.set(key, breaker);
+    }
+    return breaker;
+}
+
+/** Wait for `ms`, rejecting early with an AbortError if `signal` fires. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            window.clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = window.setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Backoff before retry number `retry` (1-based): exponential, capped, with
+ * "equal jitter" (half fixed, half random) so that many clients retrying at
+ * once don't stay in lockstep. A server-provided `Retry-After` wins.
+ */
+function backoffDelay(policy: RetryPolicy, retry: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+        return retryAfterMs;
+    }
+    const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retry - 1));
+    return exp / 2 + Math.random() * (exp / 2);
+}
+
+/** One attempt: receives its own signal plus a hook to stop the timeout. */
+type Attempt<T> = (signal: AbortSignal, clearTimeout: () => void) => Promise<T>;
+
+/**
+ * Run `attempt` under the retry policy and circuit breaker. Failures come back
+ * as values (`makeFailure`), matching the providers' own contract; only a
+ * cancellation by the caller's `signal` rejects.
+ *
+ * @param canRetry Extra veto, e.g. a stream that already emitted tokens
+ */
+async function runWithRetry<T extends ResponseStatus>(
+    attempt: Attempt<T>,
+    makeFailure: (error: string) => T,
+    policy: RetryPolicy,
+    breaker: CircuitBreaker,
+    label: string,
+    signal?: AbortSignal,
+    canRetry: () => boolean = () => true
+): Promise<T> {
+    for (let attemptNo = 1; ; attemptNo++) {
+        if (!breaker.canRequest()) {
+            const seconds = Math.ceil(breaker.remainingCooldownMs() / 1000);
+            const message = breaker.isAwaitingTrial()
+                ? `${label} is not responding; skipping requests until a trial request gets through after repeated failures.`
+                : `${label} is not responding; skipping requests for ${seconds}s after repeated failures.`;
+            return { ...makeFailure(message), attempts: attemptNo - 1 };
+        }
+
+        const controller = new AbortController();
+        const forwardAbort = () => controller.abort();
+        signal?.addEventListener("abort", forwardAbort, { once: true });
+        let timedOut = false;
+        let timer: number | null = policy.timeoutMs > 0
+            ? window.setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, policy.timeoutMs)
+            : null;
+        const stopTimer = () => {
+            if (timer !== null) {
+                window.clearTimeout(timer);
+                timer = null;
+            }
+        };
+
+        let result: T;
+        try {
+            result = await attempt(controller.signal, stopTimer);
+        } catch (error) {
+            if (signal?.aborted || !isAbortError(error) || !timedOut) {
+                breaker.releaseTrial();
+                throw error;
+            }
+            result = makeFailure(`Request timed out after ${Math.round(policy.timeoutMs / 1000)}s`);
+        } finally {
+            stopTimer();
+            signal?.removeEventListener("abort", forwardAbort);
+        }
+
+        if (!result.error) {
+            breaker.recordSuccess();
+            return { ...result, attempts: attemptNo };
+        }
+
+        if (isServerFailure(result)) {
+            breaker.recordFailure();
+        } else if (result.retryable !== false) {
+            // A 4xx still proves the server is up and answering.
+            breaker.recordSuccess();
+        } else {
+            breaker.releaseTrial();
+        }
+
+        const tooLongToWait = result.retryAfterMs !== undefined && result.retryAfterMs > MAX_RETRY_AFTER_MS;
+        if (!isRetryable(result) || attemptNo > policy.maxRetries || tooLongToWait || !canRetry()) {
+            return { ...result, attempts: attemptNo };
+        }
+
+        const delayMs = backoffDelay(policy, attemptNo, result.retryAfterMs);
+        console.warn(`${label} request failed (${result.error}); retrying in ${Math.round(delayMs)}ms`);
+        await sleep(delayMs, signal);
+    }
+}
+
+/**
+ * Wraps a chat provider with timeouts, retries and a circuit breaker. A
+ * streamed answer is only retried if it failed before the first token, so the
+ * user never sees text repeated.
+ */
+export class ResilientChatProvider implements ChatProvider {
+    constructor(
+        private inner: ChatProvider,
+        private policy: RetryPolicy,
+        private breaker: CircuitBreaker,
+        private label: string
+    ) {}
+
+    get supportsTools(): boolean {
+        return this.inner.supportsTools === true;
+    }
+
+    sendChatMessage(messages: LLMChatMessage[], options?: ChatRequestOptions): Promise<LLMResponse> {
+        return runWithRetry<LLMResponse>(
+            (signal) => this.inner.sendChatMessage(messages, { ...options, signal }),
+            (error) => ({ content: "", error }),
+            this.policy,
+            this.breaker,
+            this.label,
+            options?.signal
+        );
+    }
+
+    streamChatMessage(messages: LLMChatMessage[], onToken: TokenCallback, options?: ChatRequestOptions): Promise<LLMResponse> {
+        if (!this.inner.streamChatMessage) {
+            return this.sendChatMessage(messages, options);
+        }
+        const stream = this.inner.streamChatMessage.bind(this.inner);
+
+        let emitted = false;
+        return runWithRetry<LLMResponse>(
+            (signal, clearTimeout) => stream(messages, (token) => {
+                if (!emitted) {
+                    emitted = true;
+                    clearTimeout();
+                }
+                onToken(token);
+            }, { ...options, signal }),
+            (error) => ({ content: "", error }),
+            this.policy,
+            this.breaker,
+            this.label,
+            options?.signal,
+            () => !emitted
+        );
+    }
+}
+
+/** Wraps an embedding provider with timeouts, retries and a circuit breaker. */
+export class ResilientEmbeddingProvider implements EmbeddingProvider {
+    constructor(
+        private inner: EmbeddingProvider,
+        private policy: RetryPolicy,
+        private breaker: CircuitBreaker,
+        private label: string
+    ) {}
+
+    getEmbeddings(texts: string[], options?: RequestOptions): Promise<EmbeddingResponse> {
+        return runWithRetry<EmbeddingResponse>(
+            (signal) => this.inner.getEmbeddings(texts, { ...options, signal }),
+            (error) => ({ embeddings: [], error }),
+            this.policy,
+            this.breaker,
+            this.label,
+            options?.signal
+        );
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * Helpers for consuming streamed HTTP responses. Obsidian's `requestUrl`
+ * buffers the whole body, so streaming calls go through `fetch` and read the
+ * body incrementally instead.
+ */
+
+/**
+ * Issue a request whose response body will be consumed as a stream. This is
+ * the one place the plugin uses `fetch`: `requestUrl` can't expose a body
+ * before it has fully arrived.
+ */
+export function streamingRequest(url: string, init: RequestInit): Promise<Response> {
+    return fetch(url, init);
+}
+
+/**
+ * Read a streamed response body line by line, invoking `onLine` for every
+ * complete, non-empty line. Handles lines split across network chunks and
+ * flushes a trailing line that has no final newline.
+ */
+export async function readLines(
+    body: ReadableStream<Uint8Array>,
+    onLine: (line: string) => void
+): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    const flush = (final: boolean) => {
+        const lines = buffer.split(/\r?\n/);
+        buffer = final ? "" : lines.pop() ?? "";
+        for (const line of lines) {
+            if (line.trim().length > 0) {
+                onLine(line);
+            }
+        }
+    };
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            flush(false);
+        }
+        buffer += decoder.decode();
+        flush(true);
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Read a non-streamed error body as JSON if possible, so providers can reuse
+ * their usual error-message extraction. Returns null for non-JSON bodies.
+ */
+export async function readErrorJson(response: Response): Promise<unknown> {
+    try {
+        const text = await response.text();
+        return text ? JSON.parse(text) as unknown : null;
+    } catch {
+        return null;
+    }
+}
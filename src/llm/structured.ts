@@ -0,0 +1,186 @@
+import type { ChatProvider, ChatRequestOptions, JsonSchemaFormat, LLMChatMessage, ResponseStatus } from "./types";
+
+/**
+ * Structured output for internal calls (query rewriting, reranking): the
+ * reply is requested as JSON matching a schema, parsed and validated, and on
+ * a bad reply the model is shown what was wrong and asked again, a bounded
+ * number of times.
+ */
+
+/** A schema the reply must match, plus checks the schema can't express. */
+export interface StructuredFormat<T> extends JsonSchemaFormat {
+    /** Extra validation of a schema-valid value; returns what is wrong, or null. */
+    check?: (value: T) => string | null;
+}
+
+export interface StructuredResponse<T> extends ResponseStatus {
+    /** The validated value; absent when the request failed. */
+    value?: T;
+}
+
+/** Further attempts after an invalid reply. */
+const MAX_REPAIRS = 1;
+
+/** Outcome counts for one structured format since the plugin loaded. */
+export interface StructuredOutputStats {
+    /** Format name, e.g. "rerank". */
+    name: string;
+    requests: number;
+    /** Replies that weren't valid JSON or didn't match the schema, including ones later repaired. */
+    parseFailures: number;
+    /** Requests that succeeded only after a repair attempt. */
+    repaired: number;
+    /** Requests that gave up on an invalid reply, so the caller fell back. */
+    failed: number;
+}
+
+/** Counts are per session; they exist to spot models that handle a format badly. */
+const stats = new Map<string, StructuredOutputStats>();
+
+function statsFor(name: string): StructuredOutputStats {
+    let entry = stats.get(name);
+    if (!entry) {
+        entry = { name, requests: 0, parseFailures: 0, repaired: 0, failed: 0 };
+        stats.set(name, entry);
+    }
+    return entry;
+}
+
+export function getStructuredOutputStats(): StructuredOutputStats[] {
+    return [...stats.values()].map(entry => ({ ...entry }));
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "number" && Number.isInteger(value)) return "integer";
+    return typeof value;
+}
+
+/**
+ * Validate a value against the subset of JSON Schema used for structured
+ * output: `type`, `properties`, `required`, `additionalProperties: false`,
+ * `items`, `enum`, `minimum` and `maximum`.
+ *
+ * @returns A description of the first problem found, or null if valid
+ */
+export function validateJson(value: unknown, schema: Record<string, unknown>, path = "$"): string | null {
+    const actual = typeOf(value);
+    const expected = schema.type;
+    if (typeof expected === "string" && expected !== actual && !(expected === "number" && actual === "integer")) {
+        return `${path} should be ${expected}, got ${actual}`;
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+        return `${path} should be one of ${JSON.stringify(schema.enum)}`;
+    }
+
+    if (typeof value === "number") {
+        if (typeof schema.minimum === "number" && value < schema.minimum) {
+            return `${path} should be at least ${schema.minimum}`;
+        }
+        if (typeof schema.maximum === "number" && value > schema.maximum) {
+            return `${path} should be at most ${schema.maximum}`;
+        }
+    }
+
+    if (Array.isArray(value) && schema.items && typeof schema.items === "object") {
+        for (const [index, item] of value.entries()) {
+            const problem = validateJson(item, schema.items as Record<string, unknown>, `${path}[${index}]`);
+            if (problem) return problem;
+        }
+    }
+
+    if (actual === "object") {
+        const record = value as Record<string, unknown>;
+        const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+        for (const key of Array.isArray(schema.required) ? schema.required as string[] : []) {
+            if (!(key in record)) return `${path}.${key} is missing`;
+        }
+        for (const [key, item] of Object.entries(record)) {
+            const propertySchema = properties[key];
+            if (propertySchema) {
+                const problem = validateJson(item, propertySchema, `${path}.${key}`);
+                if (problem) return problem;
+            } else if (schema.additionalProperties === false) {
+                return `${path}.${key} is not allowed`;
+            }
+        }
+    }
+
+    return null;
+}
+
+/** Parse a reply as JSON, tolerating a Markdown code fence around it. */
+function parseReply(content: string): { value?: unknown; error?: string } {
+    const text = content.trim().replace(/^```(?:json)?\s*\n?/i, "").replace(/\n?```$/, "").trim();
+    if (!text) {
+        return { error: "the reply was empty" };
+    }
+    try {
+        return { value: JSON.parse(text) as unknown };
+    } catch (error) {
+        return { error: `the reply is not valid JSON (${error instanceof Error ? error.message : "parse error"})` };
+    }
+}
+
+/**
+ * Send a chat request whose reply must be JSON matching `format`, and return
+ * the validated value. An invalid reply is sent back to the model with the
+ * problem and a request to try again, up to {@link MAX_REPAIRS} times.
+ *
+ * Some OpenAI-compatible servers reject `response_format` outright; after a
+ * 400 the request is retried once without it, relying on the prompt and the
+ * validation here instead.
+ *
+ * Provider errors are returned as `error` like any provider call, and
+ * cancellation rejects with an AbortError.
+ */
+export async function requestStructured<T>(
+    provider: ChatProvider,
+    messages: LLMChatMessage[],
+    format: StructuredFormat<T>,
+    options: ChatRequestOptions = {}
+): Promise<StructuredResponse<T>> {
+    const counts = statsFor(format.name);
+    counts.requests++;
+
+    const conversation = [...messages];
+    let requestOptions: ChatRequestOptions = { ...options, responseFormat: { name: format.name, schema: format.schema } };
+    let repairs = 0;
+
+    for (;;) {
+        let response = await provider.sendChatMessage(conversation, requestOptions);
+        if (response.error && response.status === 400 && requestOptions.responseFormat) {
+            requestOptions = { ...options };
+            response = await provider.sendChatMessage(conversation, requestOptions);
+        }
+        if (response.error) {
+            return { error: response.error, status: response.status };
+        }
+
+        const parsed = parseReply(response.content);
+        const problem = parsed.error
+            ?? validateJson(parsed.value, format.schema)
+            ?? format.check?.(parsed.value as T)
+            ?? null;
+        if (!problem) {
+            if (repairs > 0) counts.repaired++;
+            return { value: parsed.value as T };
+        }
+
+        counts.parseFailures++;
+        if (repairs >= MAX_REPAIRS) {
+            counts.failed++;
+            return { error: `Invalid ${format.name} output: ${problem}` };
+        }
+        repairs++;
+        conversation.push(
+            { role: "assistant", content: response.content },
+            {
+                role: "user",
+                content: `That reply was invalid: ${problem}. Reply again with only a JSON object matching this schema, and nothing else:\n${JSON.stringify(format.schema)}`,
+            }
+        );
+    }
+}
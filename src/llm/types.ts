@@ -9,39 +9,230 @@
  * `ChatMessage`) to avoid colliding with the persisted, UI-facing
  * `ChatMessage` type in `settings/types.ts` (`{ content, sender, timestamp }`),
  * which has a completely different shape.
+ *
+ * The tool fields are only used in tool-calling conversations (see
+ * {@link ChatRequestOptions.tools}).
  */
 export interface LLMChatMessage {
-    role: "user" | "assistant" | "system";
+    role: "user" | "assistant" | "system" | "tool";
     content: string;
+    /** On assistant turns: the tool calls the model made. */
+    toolCalls?: ToolCall[];
+    /** On tool turns: id of the call this is the result of. */
+    toolCallId?: string;
+    /** On tool turns: name of the tool that produced the result. */
+    toolName?: string;
 }
 
-export interface LLMResponse {
-    content: string;
+/**
+ * A function the model may call, with its arguments described as a JSON
+ * Schema object.
+ */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+}
+
+/** A call to one of the offered tools, as requested by the model. */
+export interface ToolCall {
+    /** Ties the tool's result back to the call; generated when the API has none. */
+    id: string;
+    name: string;
+    /** Parsed arguments; empty when the model sent arguments that aren't valid JSON. */
+    arguments: Record<string, unknown>;
+}
+
+/**
+ * Outcome details shared by chat and embedding responses. Beyond the error
+ * message, failures carry enough HTTP detail for the retry layer
+ * (`llm/resilience.ts`) to decide whether another attempt is worthwhile.
+ */
+export interface ResponseStatus {
     error?: string;
+    /** HTTP status of a failed request; absent for network-level failures. */
+    status?: number;
+    /**
+     * False for failures another attempt can't fix and that say nothing about
+     * the backend's health, such as a missing API key.
+     */
+    retryable?: boolean;
+    /** Server-requested wait before retrying (from `Retry-After`), in ms. */
+    retryAfterMs?: number;
+    /** How many attempts the request took, when it went through the retry layer. */
+    attempts?: number;
+    /**
+     * Id of the backend that produced this response. Set by the fallback
+     * chain (`llm/fallback.ts`), where it may differ from the primary provider.
+     */
+    provider?: string;
+}
+
+/** Token counts for one request. */
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    /**
+     * True when the provider didn't report usage and the counts were
+     * estimated from the text length instead.
+     */
+    estimated?: boolean;
+}
+
+/**
+ * Accounting details attached to a response by the providers (`usage`) and
+ * the usage meter (`llm/usage.ts`, which fills in the rest).
+ */
+export interface ResponseMetrics {
+    usage?: TokenUsage;
+    /** Wall-clock time of the request including any retries, in ms. */
+    latencyMs?: number;
+    /** Model that served the request. */
+    model?: string;
+    /** Estimated cost in USD; absent when the model's price is unknown. */
+    costUsd?: number;
+}
+
+export interface LLMResponse extends ResponseStatus, ResponseMetrics {
+    content: string;
+    /**
+     * Tools the model wants called before it answers. When present, `content`
+     * may be empty; the caller runs the tools and continues the conversation.
+     */
+    toolCalls?: ToolCall[];
 }
 
-export interface EmbeddingResponse {
+export interface EmbeddingResponse extends ResponseStatus, ResponseMetrics {
     embeddings: number[][];
-    error?: string;
+}
+
+/** What a model can be used for. */
+export type ModelCapability = "chat" | "embedding";
+
+/** One entry from a provider's model listing. */
+export interface ModelInfo {
+    /** The id to put in settings and send in requests. */
+    id: string;
+    /** Human-readable name, when the provider has one. */
+    name?: string;
+    /**
+     * What the model is for, as reported by the provider or inferred from its
+     * name/family (see `llm/models.ts`). Absent when unknown.
+     */
+    capabilities?: ModelCapability[];
+    contextLength?: number;
+    /** Size on disk, for locally installed models. */
+    sizeBytes?: number;
+}
+
+export interface ModelListResponse extends ResponseStatus {
+    models: ModelInfo[];
 }
 
+/**
+ * Per-request options shared by every provider call.
+ */
+export interface RequestOptions {
+    /**
+     * Cancels the request. Providers reject with an `AbortError` (see
+     * `llm/abort.ts`) instead of resolving with an `error` string, so
+     * cancellation can unwind the whole pipeline rather than look like a
+     * provider failure.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Sampling and runtime settings for one chat request. Every field is
+ * optional; unset fields leave the provider's or model's own default in
+ * place. Providers map these to their own parameter names and ignore the
+ * ones they don't support.
+ */
+export interface GenerationOptions {
+    temperature?: number;
+    topP?: number;
+    /** Cap on generated tokens. */
+    maxTokens?: number;
+    /** Sequences that end generation when produced. */
+    stop?: string[];
+    /** For reproducible sampling, where the provider supports it. */
+    seed?: number;
+    /** Ollama only: context window size in tokens (`num_ctx`). */
+    numCtx?: number;
+    /** Ollama only: how long the model stays loaded afterwards, e.g. "10m", or "-1" for indefinitely. */
+    keepAlive?: string;
+}
+
+/**
+ * A JSON Schema the reply must follow, for calls whose output is parsed
+ * rather than shown. The root must be an object schema.
+ */
+export interface JsonSchemaFormat {
+    /** Short identifier, sent to providers that name their schemas. */
+    name: string;
+    schema: Record<string, unknown>;
+}
+
+/** Options for a chat request: cancellation plus generation settings. */
+export interface ChatRequestOptions extends RequestOptions, GenerationOptions {
+    /**
+     * Constrain the reply to JSON matching this schema, on providers that
+     * support it. Others ignore it, so callers still validate the reply
+     * (see `llm/structured.ts`).
+     */
+    responseFormat?: JsonSchemaFormat;
+    /**
+     * Tools the model may call instead of answering. Only honoured by
+     * `sendChatMessage` on providers with {@link ChatProvider.supportsTools};
+     * others ignore them.
+     */
+    tools?: ToolDefinition[];
+}
+
+/**
+ * Receives each piece of answer text as it streams in. Tokens are deltas,
+ * not the accumulated text so far.
+ */
+export type TokenCallback = (token: string) => void;
+
 /**
  * A configured chat backend. The model, API key/base URL are bound in at
  * construction time, so callers only ever pass the conversation.
  */
 export interface ChatProvider {
-    sendChatMessage(messages: LLMChatMessage[]): Promise<LLMResponse>;
+    /** Whether the backend accepts {@link ChatRequestOptions.tools}. */
+    readonly supportsTools?: boolean;
+    sendChatMessage(messages: LLMChatMessage[], options?: ChatRequestOptions): Promise<LLMResponse>;
+    /**
+     * Same as {@link sendChatMessage}, but reports the answer incrementally
+     * through `onToken` while it is generated. Resolves with the full content
+     * once the stream ends. Optional: callers fall back to the non-streaming
+     * call for providers that don't implement it.
+     */
+    streamChatMessage?(messages: LLMChatMessage[], onToken: TokenCallback, options?: ChatRequestOptions): Promise<LLMResponse>;
+}
+
+/**
+ * A backend that can list the models available to it, used to offer model
+ * choices in settings.
+ */
+export interface ModelLister {
+    listModels(options?: RequestOptions): Promise<ModelListResponse>;
 }
 
 /**
  * A configured embedding backend.
  */
 export interface EmbeddingProvider {
-    getEmbeddings(texts: string[]): Promise<EmbeddingResponse>;
+    getEmbeddings(texts: string[], options?: RequestOptions): Promise<EmbeddingResponse>;
 }
 
-/** Identifiers for the chat backends the plugin supports. */
-export type ChatProviderId = "openrouter" | "openai" | "ollama";
+/**
+ * Id of a registered provider that can chat. The built-in ones are
+ * "openrouter", "openai", "anthropic", "ollama" and "custom"; other plugins
+ * can register more (see `llm/registry.ts`).
+ */
+export type ChatProviderId = string;
 
-/** Identifiers for the embedding backends the plugin supports. */
-export type EmbeddingProviderId = "openrouter" | "openai" | "ollama";
+/** Id of a registered provider that can create embeddings. */
+export type EmbeddingProviderId = string;
@@ -0,0 +1,279 @@
+import type {
+    ChatProvider,
+    ChatRequestOptions,
+    EmbeddingProvider,
+    EmbeddingResponse,
+    LLMChatMessage,
+    LLMResponse,
+    RequestOptions,
+    TokenCallback,
+    TokenUsage,
+} from "./types";
+
+/**
+ * Which step of answering a question a chat call belongs to. "agent" is an
+ * agent-mode call that asked for tools rather than answering.
+ */
+export type UsageKind = "answer" | "rewrite" | "hyde" | "rerank" | "agent";
+
+/** Usage of one chat call, stored on the chat message it contributed to. */
+export interface UsageRecord {
+    kind: UsageKind;
+    provider?: string;
+    model?: string;
+    promptTokens: number;
+    completionTokens: number;
+    /** True when the provider didn't report token counts and they were estimated. */
+    estimated?: boolean;
+    latencyMs?: number;
+    costUsd?: number;
+}
+
+/** Running totals for one provider and model in one calendar month. */
+export interface UsageTotal {
+    /** Local calendar month, "YYYY-MM". */
+    month: string;
+    provider: string;
+    model: string;
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+}
+
+/** Price of a model in USD per million tokens. */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * Published list prices for the models offered as defaults or examples in
+ * the settings, keyed by model name without any vendor prefix. Used only for
+ * estimates; users can add or override prices in settings.
+ */
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4.1": { input: 2, output: 8 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+    "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+    "gemini-2.5-pro": { input: 1.25, output: 10 },
+    "claude-sonnet-4-5": { input: 3, output: 15 },
+    "claude-haiku-4-5": { input: 1, output: 5 },
+    "claude-3.5-sonnet": { input: 3, output: 15 },
+    "text-embedding-3-small": { input: 0.02, output: 0 },
+    "text-embedding-3-large": { input: 0.13, output: 0 },
+    "text-embedding-ada-002": { input: 0.1, output: 0 },
+};
+
+/** Rough token estimate (~4 chars/token), as in `chat/rag-engine.ts`. */
+function estimateTokenCount(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/** The local calendar month of `date` as "YYYY-MM". */
+export function monthKey(date: Date = new Date()): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/** Lower-case a model name and drop any vendor prefix ("openai/gpt-4o" → "gpt-4o"). */
+function baseModelName(model: string): string {
+    const name = model.trim().toLowerCase();
+    return name.slice(name.lastIndexOf("/") + 1);
+}
+
+/**
+ * Parse user price overrides, one `model: input, output` per line (USD per
+ * million tokens). Blank lines, `#` comments and malformed lines are ignored.
+ */
+export function parsePriceLines(text: string): Record<string, ModelPrice> {
+    const prices: Record<string, ModelPrice> = {};
+    for (const rawLine of text.split("\n")) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith("#")) continue;
+        const colon = line.lastIndexOf(":");
+        if (colon <= 0) continue;
+        const [input, output] = line.slice(colon + 1).split(",").map(part => Number(part.trim()));
+        if (input === undefined || !Number.isFinite(input)) continue;
+        prices[line.slice(0, colon).trim().toLowerCase()] = {
+            input,
+            output: output !== undefined && Number.isFinite(output) ? output : 0,
+        };
+    }
+    return prices;
+}
+
+/**
+ * Where the usage meter gets its settings from, and how it saves totals.
+ * Kept separate from the plugin settings type so this module stays in `llm/`.
+ */
+export interface UsageMeterHost {
+    getTotals(): UsageTotal[];
+    /** Price overrides, in the format read by {@link parsePriceLines}. */
+    getCustomPrices(): string;
+    /** Monthly spending cap in USD; 0 means no cap. */
+    getMonthlyCap(): number;
+    /** Called after totals change; expected to debounce the write. */
+    save(): void;
+}
+
+/**
+ * Prices requests, keeps per-month totals per provider and model, and
+ * enforces the optional monthly spending cap.
+ */
+export class UsageMeter {
+    constructor(private host: UsageMeterHost) {}
+
+    /** Look up a model's price: user overrides first, then the built-in table. */
+    getPrice(provider: string, model: string): ModelPrice | undefined {
+        const custom = parsePriceLines(this.host.getCustomPrices());
+        const exact = model.trim().toLowerCase();
+        const found = custom[exact] ?? custom[baseModelName(model)] ?? DEFAULT_MODEL_PRICES[baseModelName(model)];
+        if (found) {
+            return found;
+        }
+        // Models served by a local Ollama server cost nothing.
+        return provider === "ollama" ? { input: 0, output: 0 } : undefined;
+    }
+
+    /** Estimated cost in USD, or undefined when the model's price is unknown. */
+    estimateCost(provider: string, model: string, usage: TokenUsage): number | undefined {
+        const price = this.getPrice(provider, model);
+        if (!price) {
+            return undefined;
+        }
+        return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+    }
+
+    /** Estimated spend so far in the given month (default: this month). */
+    getMonthlyCost(month: string = monthKey()): number {
+        return this.host.getTotals()
+            .filter(total => total.month === month)
+            .reduce((sum, total) => sum + total.costUsd, 0);
+    }
+
+    /** Whether this month's estimated spend has reached the cap, if one is set. */
+    isCapReached(): boolean {
+        const cap = this.host.getMonthlyCap();
+        return cap > 0 && this.getMonthlyCost() >= cap;
+    }
+
+    /** Add one request to this month's totals. */
+    record(provider: string, model: string, usage: TokenUsage, costUsd: number | undefined): void {
+        const month = monthKey();
+        const totals = this.host.getTotals();
+        let total = totals.find(t => t.month === month && t.provider === provider && t.model === model);
+        if (!total) {
+            total = { month, provider, model, calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+            totals.push(total);
+        }
+        total.calls++;
+        total.promptTokens += usage.promptTokens;
+        total.completionTokens += usage.completionTokens;
+        total.costUsd += costUsd ?? 0;
+        this.host.save();
+    }
+}
+
+/**
+ * Identifies one metered backend. `isRemote` marks backends that cost money
+ * and are therefore blocked once the monthly cap is reached; local servers
+ * keep working.
+ */
+export interface MeterTarget {
+    provider: string;
+    model: string;
+    label: string;
+    isRemote: boolean;
+}
+
+function capReachedMessage(meter: UsageMeter, label: string): string {
+    return `Monthly spending cap reached ($${meter.getMonthlyCost().toFixed(2)} spent); not sending requests to ${label}. Raise or remove the cap in settings.`;
+}
+
+/**
+ * Fill in usage (estimated from the text when the provider didn't report
+ * any), latency, model and cost, and add the request to the monthly totals.
+ */
+function meter<T extends LLMResponse | EmbeddingResponse>(
+    response: T,
+    usageMeter: UsageMeter,
+    target: MeterTarget,
+    startedAt: number,
+    estimate: () => TokenUsage
+): T {
+    if (response.error && !response.usage) {
+        return { ...response, latencyMs: Date.now() - startedAt, model: target.model };
+    }
+    const usage = response.usage ?? { ...estimate(), estimated: true };
+    const costUsd = usageMeter.estimateCost(target.provider, target.model, usage);
+    usageMeter.record(target.provider, target.model, usage, costUsd);
+    return { ...response, usage, costUsd, latencyMs: Date.now() - startedAt, model: target.model };
+}
+
+function estimateChatUsage(messages: LLMChatMessage[], content: string): TokenUsage {
+    return {
+        promptTokens: messages.reduce((sum, message) => sum + estimateTokenCount(message.content), 0),
+        completionTokens: estimateTokenCount(content),
+    };
+}
+
+/** Wraps a chat provider with usage accounting and the spending cap. */
+export class MeteredChatProvider implements ChatProvider {
+    constructor(
+        private inner: ChatProvider,
+        private usageMeter: UsageMeter,
+        private target: MeterTarget
+    ) {}
+
+    get supportsTools(): boolean {
+        return this.inner.supportsTools === true;
+    }
+
+    async sendChatMessage(messages: LLMChatMessage[], options?: ChatRequestOptions): Promise<LLMResponse> {
+        if (this.target.isRemote && this.usageMeter.isCapReached()) {
+            return { content: "", error: capReachedMessage(this.usageMeter, this.target.label) };
+        }
+        const startedAt = Date.now();
+        const response = await this.inner.sendChatMessage(messages, options);
+        return meter(response, this.usageMeter, this.target, startedAt, () => estimateChatUsage(messages, response.content));
+    }
+
+    async streamChatMessage(messages: LLMChatMessage[], onToken: TokenCallback, options?: ChatRequestOptions): Promise<LLMResponse> {
+        if (!this.inner.streamChatMessage) {
+            return this.sendChatMessage(messages, options);
+        }
+        if (this.target.isRemote && this.usageMeter.isCapReached()) {
+            return { content: "", error: capReachedMessage(this.usageMeter, this.target.label) };
+        }
+        const startedAt = Date.now();
+        const response = await this.inner.streamChatMessage(messages, onToken, options);
+        return meter(response, this.usageMeter, this.target, startedAt, () => estimateChatUsage(messages, response.content));
+    }
+}
+
+/** Wraps an embedding provider with usage accounting and the spending cap. */
+export class MeteredEmbeddingProvider implements EmbeddingProvider {
+    constructor(
+        private inner: EmbeddingProvider,
+        private usageMeter: UsageMeter,
+        private target: MeterTarget
+    ) {}
+
+    async getEmbeddings(texts: string[], options?: RequestOptions): Promise<EmbeddingResponse> {
+        if (texts.length === 0) {
+            return this.inner.getEmbeddings(texts, options);
+        }
+        if (this.target.isRemote && this.usageMeter.isCapReached()) {
+            return { embeddings: [], error: capReachedMessage(this.usageMeter, this.target.label) };
+        }
+        const startedAt = Date.now();
+        const response = await this.inner.getEmbeddings(texts, options);
+        return meter(response, this.usageMeter, this.target, startedAt, () => ({
+            promptTokens: texts.reduce((sum, text) => sum + estimateTokenCount(text), 0),
+            completionTokens: 0,
+        }));
+    }
+}
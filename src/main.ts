@@ -1,13 +1,26 @@
 import {App, debounce, Modal, Notice, Plugin, TAbstractFile, TFile} from 'obsidian';
-import {DEFAULT_SETTINGS, MyPluginSettings, SampleSettingTab, UserGuideModal} from "./settings";
-import { ChatbotView, VIEW_TYPE_CHATBOT } from "./views/views";
+import {DEFAULT_SETTINGS, DiagnosticsModal, MyPluginSettings, SampleSettingTab, UserGuideModal} from "./settings";
+import { ChatbotView, ConfirmModal, VIEW_TYPE_CHATBOT } from "./views/views";
 import { VaultIndexer } from "./indexer";
 import { ChunkManager } from "./indexer/chunk-manager";
 import { VectorStore } from "./indexer/vector-store";
-import { EmbeddingManager } from "./indexer/embedding-manager";
+import { EmbeddingManager, EmbeddingResult } from "./indexer/embedding-manager";
+import { EmbeddingPrefixes, resolveEmbeddingPrefixes } from "./indexer/embedding-profiles";
 import { RAGEngine } from "./chat/rag-engine";
+import { createNoteTools } from "./chat/note-tools";
 import { PrivacyManager } from "./indexer/privacy-manager";
-import { createChatProvider, createEmbeddingProvider, isEmbeddingProviderConfigured } from "./llm/factory";
+import {
+	createChatProvider,
+	createEmbeddingProvider,
+	createUtilityProvider,
+	getEmbeddingModel,
+	getExpectedEmbeddingDimensions,
+	isEmbeddingProviderConfigured,
+	normalizeEmbeddingModel,
+	providerRegistry
+} from "./llm/factory";
+import { getEmbeddingInputLimit } from "./llm/models";
+import { UsageMeter } from "./llm/usage";
 
 export default class HelloWorldPlugin extends Plugin {
 	settings: MyPluginSettings;
@@ -17,13 +30,40 @@ export default class HelloWorldPlugin extends Plugin {
 	embeddingManager: EmbeddingManager;
 	ragEngine: RAGEngine;
 	privacyManager: PrivacyManager;
+	usageMeter: UsageMeter;
+	/**
+	 * The chat and embedding backends this plugin can use. Other plugins can
+	 * add their own with `providers.register(...)`; they then appear in the
+	 * provider settings like the built-in ones.
+	 */
+	readonly providers = providerRegistry;
+	/** Set while an embedding run is in progress, so it can be stopped. */
+	private embeddingAbortController: AbortController | null = null;
+	/** Chunks that still failed after retries in the last embedding run. */
+	private failedChunkIds: string[] = [];
+	/** Embedding model the user was last asked about re-embedding for, so declining isn't re-asked on every save. */
+	private promptedEmbeddingModel: string | null = null;
 	
+	// Usage totals change on every provider call; batch the writes to data.json
+	private debouncedSaveUsage = debounce(
+		() => { void this.saveData(this.settings); },
+		2000
+	);
+
+	// Settings are saved on every keystroke; only check once the embedding model has stopped changing
+	private debouncedCheckEmbeddingModel = debounce(
+		() => this.checkEmbeddingModel(),
+		2000,
+		true
+	);
+
 	// Debounced update function for file modifications
 	private debouncedUpdateFile = debounce(
 		async (file: TFile) => {
 			await this.chunkManager.updateFile(file);
 			// Record the mtime so a future startup scan knows this file is up to date
 			this.vectorStore.setStoredMtime(file.path, file.stat.mtime);
+			this.storeFileMetadata(file);
 			console.log(`Rechunked file: ${file.path}`);
 			// Update embeddings for the modified file
 			if (isEmbeddingProviderConfigured(this.settings)) {
@@ -40,6 +80,14 @@ export default class HelloWorldPlugin extends Plugin {
 		this.indexer = new VaultIndexer(this.app);
 		this.indexer.setExcludedFolders(this.settings.excludedFolders);
 		
+		// Initialize usage accounting, shared by every chat and embedding provider
+		this.usageMeter = new UsageMeter({
+			getTotals: () => this.settings.usageTotals,
+			getCustomPrices: () => this.settings.customModelPrices,
+			getMonthlyCap: () => this.settings.monthlySpendingCap,
+			save: () => this.debouncedSaveUsage(),
+		});
+		
 		// Initialize the privacy manager
 		this.privacyManager = new PrivacyManager();
 		this.privacyManager.setEnabled(this.settings.enableRedaction);
@@ -55,6 +103,8 @@ export default class HelloWorldPlugin extends Plugin {
 		
 		// Initialize the vector store
 		this.vectorStore = new VectorStore(this);
+		await this.vectorStore.setQuantization(this.settings.quantizeVectors);
+		this.vectorStore.setGraphThreshold(this.settings.searchGraphThreshold);
 		await this.vectorStore.load();
 		this.vectorStore.setExcludedFolders(this.settings.excludedFolders);
 		
@@ -70,13 +120,27 @@ export default class HelloWorldPlugin extends Plugin {
 			this.vectorStore,
 			{ batchSize: 20, batchDelayMs: 100 }
 		);
-		this.embeddingManager.setEmbeddingProvider(createEmbeddingProvider(this.settings));
+		this.embeddingManager.setEmbeddingProvider(createEmbeddingProvider(this.settings, this.usageMeter));
 		this.embeddingManager.setHybridConfig(this.settings.hybridStrategy, this.settings.vectorWeight);
+		this.embeddingManager.setEmbeddingPrefixes(this.getEmbeddingPrefixes());
+		this.embeddingManager.setMaxInputTokens(getEmbeddingInputLimit(getEmbeddingModel(this.settings, this.settings.embeddingProvider)));
+		this.embeddingManager.setMaxConcurrency(this.settings.embeddingConcurrency);
+		this.updateModelMismatch();
+		
+		// Rebuild the providers when another plugin adds or removes one
+		this.register(this.providers.onChange(() => this.refreshProviders()));
 		
 		// Initialize the RAG engine
 		this.ragEngine = new RAGEngine(this.embeddingManager);
-		this.ragEngine.setChatProvider(createChatProvider(this.settings));
+		this.ragEngine.setChatProvider(createChatProvider(this.settings, this.usageMeter));
+		this.ragEngine.setUtilityProvider(createUtilityProvider(this.settings, this.usageMeter));
 		this.ragEngine.setSettingsGetter(() => this.settings);
+		this.ragEngine.setAgentTools(createNoteTools({
+			app: this.app,
+			embeddingManager: this.embeddingManager,
+			privacyManager: this.privacyManager,
+			getSettings: () => this.settings,
+		}));
 		
 		// Defer the vault scan and chunk rebuild until Obsidian's workspace layout
 		// is ready, instead of blocking plugin activation on a full vault read.
@@ -86,6 +150,7 @@ export default class HelloWorldPlugin extends Plugin {
 		this.app.workspace.onLayoutReady(async () => {
 			await this.indexVault();
 			await this.rebuildChunkIndex();
+			this.checkEmbeddingModel();
 		});
 
 		// Register vault event listeners for real-time chunk updates
@@ -165,6 +230,32 @@ export default class HelloWorldPlugin extends Plugin {
 			}
 		});
 
+		// Add command to stop a long-running embedding pass
+		this.addCommand({
+			id: 'stop-embedding',
+			name: 'Stop generating embeddings',
+			checkCallback: (checking: boolean) => {
+				if (!this.embeddingAbortController) return false;
+				if (!checking) {
+					this.stopEmbeddings();
+				}
+				return true;
+			}
+		});
+
+		// Add command to re-attempt only the chunks that failed last time
+		this.addCommand({
+			id: 'retry-failed-embeddings',
+			name: 'Retry failed embeddings',
+			checkCallback: (checking: boolean) => {
+				if (this.failedChunkIds.length === 0) return false;
+				if (!checking) {
+					void this.retryFailedEmbeddings();
+				}
+				return true;
+			}
+		});
+
 		// Add command to force rebuild (clears cache first)
 		this.addCommand({
 			id: 'force-rebuild-index',
@@ -201,6 +292,15 @@ export default class HelloWorldPlugin extends Plugin {
 			}
 		});
 
+		// Add command to show runtime diagnostics (e.g. invalid structured replies)
+		this.addCommand({
+			id: 'show-diagnostics',
+			name: 'Show diagnostics',
+			callback: () => {
+				new DiagnosticsModal(this.app, this.vectorStore).open();
+			}
+		});
+
 		// Add command to open the plain-language user guide
 		this.addCommand({
 			id: 'open-user-guide',
@@ -236,6 +336,9 @@ export default class HelloWorldPlugin extends Plugin {
 	}
 
 	async onunload() {
+		this.stopEmbeddings();
+		// Write out usage totals still waiting on the debounce
+		this.debouncedSaveUsage.run();
 		// Save any pending vector changes
 		if (this.vectorStore?.hasUnsavedChanges()) {
 			await this.vectorStore.save();
@@ -299,12 +402,17 @@ export default class HelloWorldPlugin extends Plugin {
 				const cachedChunks = this.vectorStore.getCachedChunksForFile(file.path);
 				if (cachedChunks.length > 0) {
 					this.chunkManager.restoreChunksForFile(file.path, cachedChunks);
+					// Indexes from before metadata was stored get it from the cache, without a read
+					if (!this.vectorStore.getFileMetadata(file.path)) {
+						this.vectorStore.setFileMetadata(file.path, this.chunkManager.extractMetadata(file));
+					}
 					continue;
 				}
 			}
 
 			await this.chunkManager.processFile(file);
 			this.vectorStore.setStoredMtime(file.path, file.stat.mtime);
+			this.storeFileMetadata(file);
 			reprocessedCount++;
 		}
 
@@ -315,20 +423,74 @@ export default class HelloWorldPlugin extends Plugin {
 		};
 	}
 
+	/**
+	 * Persist the metadata captured when a file was just chunked, so it
+	 * survives restarts alongside the file's vectors.
+	 */
+	private storeFileMetadata(file: TFile) {
+		const metadata = this.chunkManager.getMetadata(file.path);
+		if (metadata) {
+			this.vectorStore.setFileMetadata(file.path, metadata);
+		} else {
+			this.vectorStore.deleteFileMetadata(file.path);
+		}
+	}
+
 	async rebuildEmbeddings() {
+		await this.runEmbeddingPass(signal => this.embeddingManager.embedAllFiles(signal));
+	}
+
+	/**
+	 * Re-embed only the chunks that failed in the last run (e.g. after a rate
+	 * limit outlasted the retries), without rescanning the whole vault.
+	 */
+	async retryFailedEmbeddings() {
+		const chunks = this.chunkManager.getChunksByIds(this.failedChunkIds);
+		if (chunks.length === 0) {
+			this.failedChunkIds = [];
+			new Notice("No failed embeddings to retry.");
+			return;
+		}
+		await this.runEmbeddingPass(signal => this.embeddingManager.embedChunks(chunks, signal));
+	}
+
+	/**
+	 * Run one embedding pass with a stoppable progress notice, then report the
+	 * outcome and remember which chunks failed so they can be retried.
+	 */
+	private async runEmbeddingPass(run: (signal: AbortSignal) => Promise<EmbeddingResult>) {
 		if (!isEmbeddingProviderConfigured(this.settings)) {
 			new Notice("Embedding provider not configured. Skipping embeddings.");
 			return;
 		}
 
-		const notice = new Notice("Generating embeddings...", 0);
+		if (this.embeddingAbortController) {
+			new Notice("Embeddings are already being generated.");
+			return;
+		}
+
+		const controller = new AbortController();
+		this.embeddingAbortController = controller;
+		const message = document.createDocumentFragment();
+		message.createSpan({ text: "Generating embeddings... " });
+		message.createEl("button", { text: "Stop" })
+			.addEventListener("click", () => controller.abort());
+		const notice = new Notice(message, 0);
 		try {
-			this.embeddingManager.setEmbeddingProvider(createEmbeddingProvider(this.settings));
-			const result = await this.embeddingManager.embedAllFiles();
+			this.embeddingManager.setEmbeddingProvider(createEmbeddingProvider(this.settings, this.usageMeter));
+			const result = await run(controller.signal);
 			notice.hide();
+			this.failedChunkIds = result.failedChunkIds;
+			if (result.failedChunkIds.length > 0) {
+				console.warn("Embedding: chunks that failed after retries:", result.failedChunkIds);
+			}
 			
-			if (result.error) {
+			if (result.cancelled) {
+				new Notice(`Embedding stopped: ${result.processed} new, ${result.skipped} cached, ${result.failed} failed. Run 'Rebuild Index' to continue.`);
+			} else if (result.error) {
 				new Notice(`Embedding error: ${result.error}`);
+			} else if (result.failed > 0) {
+				new Notice(`Embeddings: ${result.processed} new, ${result.skipped} cached, ${result.failed} failed. Run 'Retry failed embeddings' to try those again.`);
 			} else {
 				new Notice(`Embeddings: ${result.processed} new, ${result.skipped} cached, ${result.failed} failed`);
 			}
@@ -336,14 +498,25 @@ export default class HelloWorldPlugin extends Plugin {
 			notice.hide();
 			new Notice("Error generating embeddings");
 			console.error("Embedding error:", error);
+		} finally {
+			this.embeddingAbortController = null;
 		}
 	}
 
+	/**
+	 * Stop the embedding run in progress, if any. Vectors embedded so far are
+	 * kept, so the next rebuild resumes where this one left off.
+	 */
+	stopEmbeddings() {
+		this.embeddingAbortController?.abort();
+	}
+
 	async forceRebuildIndex() {
 		try {
 			// Step 1: Clear vector cache
 			new Notice("Clearing vector cache...");
 			await this.vectorStore.clearAll();
+			this.updateModelMismatch();
 			console.log("Vector cache cleared.");
 
 			// Step 2: Rebuild chunks
@@ -359,6 +532,68 @@ export default class HelloWorldPlugin extends Plugin {
 		}
 	}
 
+	/** Task prefixes for the configured embedding model and profile. */
+	private getEmbeddingPrefixes(): EmbeddingPrefixes {
+		return resolveEmbeddingPrefixes(
+			this.settings.embeddingProfile,
+			getEmbeddingModel(this.settings, this.settings.embeddingProvider),
+			{ query: this.settings.embeddingQueryPrefix, document: this.settings.embeddingDocumentPrefix }
+		);
+	}
+
+	/**
+	 * Compare the model that built the stored vectors with the configured
+	 * embedding model, and pause semantic search while they differ.
+	 * @returns A description of the mismatch, or null if they match
+	 */
+	private updateModelMismatch(): string | null {
+		const provider = this.settings.embeddingProvider;
+		const model = getEmbeddingModel(this.settings, provider);
+		this.vectorStore.setActiveModel(provider, model);
+
+		const fingerprint = this.vectorStore.getFingerprint();
+		const dimensions = getExpectedEmbeddingDimensions(this.settings, provider);
+		let mismatch: string | null = null;
+		if (fingerprint?.model && normalizeEmbeddingModel(fingerprint.model) !== normalizeEmbeddingModel(model)) {
+			mismatch = `Your notes were embedded with ${fingerprint.model} (${fingerprint.provider}), but the embedding model is now ${model} (${provider}).`;
+		} else if (fingerprint && dimensions !== undefined && fingerprint.dimension !== dimensions) {
+			mismatch = `Your notes were embedded as ${fingerprint.dimension}-dimension vectors, but embeddings are now set to ${dimensions} dimensions.`;
+		}
+		this.embeddingManager.setModelMismatch(mismatch);
+		return mismatch;
+	}
+
+	/**
+	 * Offer to re-embed the vault when the embedding model no longer matches
+	 * the stored vectors. Asked once per model, so declining isn't repeated
+	 * on every settings save; search stays keyword-only until re-embedding.
+	 */
+	private checkEmbeddingModel() {
+		const mismatch = this.updateModelMismatch();
+		if (!mismatch) {
+			this.promptedEmbeddingModel = null;
+			return;
+		}
+
+		const model = `${this.settings.embeddingProvider}:${getEmbeddingModel(this.settings, this.settings.embeddingProvider)}`;
+		if (this.promptedEmbeddingModel === model) return;
+		this.promptedEmbeddingModel = model;
+
+		new ConfirmModal(
+			this.app,
+			"Embedding model changed",
+			`${mismatch} Vectors from different models can't be compared, so semantic search is paused and only keyword matches are used until your notes are re-embedded. Re-embed all notes now?`,
+			(confirmed) => {
+				if (confirmed) {
+					void this.forceRebuildIndex();
+				} else {
+					new Notice("Semantic search is paused until your notes are re-embedded. Force a rebuild of the index when ready, or switch back to the previous embedding model.");
+				}
+			},
+			"Re-embed"
+		).open();
+	}
+
 	async purgeExcludedVectors() {
 		if (!this.settings.excludedFolders || this.settings.excludedFolders.length === 0) {
 			new Notice("No excluded folders configured. Add folders in Settings → Folder Exclusion.");
@@ -482,16 +717,31 @@ export default class HelloWorldPlugin extends Plugin {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
 	}
 
+	/**
+	 * Rebuild the embedding manager's and RAG engine's providers from the
+	 * current settings and provider registry.
+	 */
+	private refreshProviders() {
+		if (this.embeddingManager) {
+			this.embeddingManager.setEmbeddingProvider(createEmbeddingProvider(this.settings, this.usageMeter));
+			this.embeddingManager.setEmbeddingPrefixes(this.getEmbeddingPrefixes());
+			this.embeddingManager.setMaxInputTokens(getEmbeddingInputLimit(getEmbeddingModel(this.settings, this.settings.embeddingProvider)));
+			this.embeddingManager.setMaxConcurrency(this.settings.embeddingConcurrency);
+			this.updateModelMismatch();
+			this.debouncedCheckEmbeddingModel();
+		}
+		if (this.ragEngine) {
+			this.ragEngine.setChatProvider(createChatProvider(this.settings, this.usageMeter));
+			this.ragEngine.setUtilityProvider(createUtilityProvider(this.settings, this.usageMeter));
+		}
+	}
+
 	async saveSettings() {
 		await this.saveData(this.settings);
-		// Update embedding manager and RAG engine with the current provider config
+		this.refreshProviders();
 		if (this.embeddingManager) {
-			this.embeddingManager.setEmbeddingProvider(createEmbeddingProvider(this.settings));
 			this.embeddingManager.setHybridConfig(this.settings.hybridStrategy, this.settings.vectorWeight);
 		}
-		if (this.ragEngine) {
-			this.ragEngine.setChatProvider(createChatProvider(this.settings));
-		}
 		// Update privacy manager settings
 		if (this.privacyManager) {
 			this.privacyManager.setEnabled(this.settings.enableRedaction);
@@ -506,6 +756,8 @@ export default class HelloWorldPlugin extends Plugin {
 		}
 		if (this.vectorStore) {
 			this.vectorStore.setExcludedFolders(this.settings.excludedFolders);
+			await this.vectorStore.setQuantization(this.settings.quantizeVectors);
+			this.vectorStore.setGraphThreshold(this.settings.searchGraphThreshold);
 		}
 	}
 }
@@ -0,0 +1,127 @@
+import { App, Modal } from "obsidian";
+import { getStructuredOutputStats } from "../llm/structured";
+import type { QuantizationReport, VectorStore } from "../indexer/vector-store";
+import { formatBytes } from "./ollama-model-panel";
+
+/**
+ * Modal showing runtime counters that help tell whether the configured
+ * models cope with the plugin's internal calls. Counts cover the current
+ * session only.
+ */
+export class DiagnosticsModal extends Modal {
+    private vectorStore: VectorStore | null;
+
+    constructor(app: App, vectorStore: VectorStore | null = null) {
+        super(app);
+        this.vectorStore = vectorStore;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("diagnostics-modal");
+
+        contentEl.createEl("h2", { text: "Diagnostics" });
+        this.renderStructuredOutput(contentEl);
+        this.renderQuantization(contentEl);
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Query rewriting and reranking ask for JSON replies. Frequent parse
+     * failures mean the chat model struggles with the format, and each one
+     * costs a repair call or a fallback to the unenhanced result.
+     */
+    private renderStructuredOutput(containerEl: HTMLElement) {
+        containerEl.createEl("h3", { text: "Structured output" });
+        const stats = getStructuredOutputStats();
+        if (stats.length === 0) {
+            containerEl.createEl("p", { text: "No query rewriting or reranking calls yet this session." });
+            return;
+        }
+
+        const table = containerEl.createEl("table", { cls: "usage-summary-table" });
+        const head = table.createEl("tr");
+        for (const label of ["Step", "Requests", "Invalid replies", "Repaired", "Fell back"]) {
+            head.createEl("th", { text: label });
+        }
+        for (const entry of stats) {
+            const row = table.createEl("tr");
+            row.createEl("td", { text: entry.name });
+            row.createEl("td", { text: String(entry.requests) });
+            row.createEl("td", { text: String(entry.parseFailures) });
+            row.createEl("td", { text: String(entry.repaired) });
+            row.createEl("td", { text: String(entry.failed) });
+        }
+        containerEl.createEl("p", {
+            text: "Invalid replies count every reply that was not valid JSON for its schema. A repaired request succeeded after the model was asked to fix its reply; one that fell back used the original query or ranking instead.",
+            cls: "settings-section-desc"
+        });
+    }
+
+    /**
+     * Compact (int8) vectors save memory but rank slightly differently from
+     * full precision. The measurement shows how much for this vault, so
+     * users can decide whether the setting is worth it.
+     */
+    private renderQuantization(containerEl: HTMLElement) {
+        const vectorStore = this.vectorStore;
+        if (!vectorStore) {
+            return;
+        }
+
+        containerEl.createEl("h3", { text: "Compact vectors" });
+        containerEl.createEl("p", {
+            text: vectorStore.isQuantized()
+                ? "Compact vectors are on: the index is held in memory as 1-byte codes, and the best matches are re-checked with the full vectors from disk."
+                : "Compact vectors are off. The measurement below shows what turning them on would change.",
+            cls: "settings-section-desc"
+        });
+
+        const resultEl = containerEl.createDiv();
+        const button = containerEl.createEl("button", { text: "Measure search accuracy" });
+        button.addEventListener("click", () => {
+            button.disabled = true;
+            resultEl.empty();
+            resultEl.createEl("p", { text: "Measuring… this reads the whole index and can take a while." });
+            void vectorStore.evaluateQuantization().then(report => {
+                resultEl.empty();
+                this.renderQuantizationReport(resultEl, report);
+            }).catch((error: unknown) => {
+                resultEl.empty();
+                resultEl.createEl("p", { text: "The measurement failed. Check the console for details." });
+                console.error("Quantization measurement failed:", error);
+            }).finally(() => {
+                button.disabled = false;
+            });
+        });
+    }
+
+    private renderQuantizationReport(containerEl: HTMLElement, report: QuantizationReport | null) {
+        if (!report) {
+            containerEl.createEl("p", { text: "The index has too few vectors to measure. Index your vault first." });
+            return;
+        }
+
+        const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+        const table = containerEl.createEl("table", { cls: "usage-summary-table" });
+        const rows: Array<[string, string]> = [
+            [`Recall of the top ${report.k}, compact vectors only`, percent(report.quantizedRecall)],
+            [`Recall of the top ${report.k}, after re-checking ${report.candidates} candidates`, percent(report.rescoredRecall)],
+            ["Memory at full precision", formatBytes(report.fullPrecisionBytes)],
+            ["Memory with compact vectors", formatBytes(report.quantizedBytes)],
+        ];
+        for (const [label, value] of rows) {
+            const row = table.createEl("tr");
+            row.createEl("td", { text: label });
+            row.createEl("td", { text: value });
+        }
+        containerEl.createEl("p", {
+            text: `Each of ${report.queries} stored chunks was used as a query. Recall is the share of the full-precision top ${report.k} results that the compact search also returned; search uses the re-checked ranking.`,
+            cls: "settings-section-desc"
+        });
+    }
+}
@@ -1,4 +1,5 @@
 export * from "./types";
 export * from "./indexed-files-modal";
 export * from "./user-guide-modal";
+export * from "./diagnostics-modal";
 export * from "./settings-tab";
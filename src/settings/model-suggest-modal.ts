@@ -0,0 +1,43 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import type { FuzzyMatch } from "obsidian";
+import type { ModelInfo } from "../llm/types";
+
+/**
+ * Searchable picker over a provider's model listing.
+ */
+export class ModelSuggestModal extends FuzzySuggestModal<ModelInfo> {
+    private models: ModelInfo[];
+    private onSelectCallback: (model: ModelInfo) => void;
+
+    constructor(app: App, models: ModelInfo[], onSelect: (model: ModelInfo) => void) {
+        super(app);
+        this.models = models;
+        this.onSelectCallback = onSelect;
+        this.setPlaceholder("Search models...");
+    }
+
+    getItems(): ModelInfo[] {
+        return this.models;
+    }
+
+    getItemText(model: ModelInfo): string {
+        return model.name ? `${model.id} ${model.name}` : model.id;
+    }
+
+    onChooseItem(model: ModelInfo, evt: MouseEvent | KeyboardEvent): void {
+        this.onSelectCallback(model);
+    }
+
+    renderSuggestion(match: FuzzyMatch<ModelInfo>, el: HTMLElement): void {
+        const model = match.item;
+        el.addClass("model-picker-item");
+        el.createDiv({ cls: "model-picker-item-id", text: model.id });
+
+        const details: string[] = [];
+        if (model.name && model.name !== model.id) details.push(model.name);
+        if (model.contextLength) details.push(`${model.contextLength.toLocaleString()} token context`);
+        if (details.length > 0) {
+            el.createDiv({ cls: "model-picker-item-details", text: details.join(" · ") });
+        }
+    }
+}
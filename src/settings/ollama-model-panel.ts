@@ -0,0 +1,257 @@
+import { App, Notice, Setting } from "obsidian";
+import type { MyPluginSettings } from "./types";
+import type { ModelInfo } from "../llm/types";
+import { OllamaProvider, OllamaModelDetails, OllamaPullProgress } from "../llm/providers/ollama";
+import { isAbortError } from "../llm/abort";
+import { ConfirmModal } from "../views/views";
+
+/** Ollama resolves a name without a tag to `:latest`. */
+function withDefaultTag(name: string): string {
+    const trimmed = name.trim();
+    return trimmed.includes(":") ? trimmed : `${trimmed}:latest`;
+}
+
+/** Human-readable size in decimal units, e.g. "4.7 GB". */
+export function formatBytes(bytes: number): string {
+    if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(1)} GB`;
+    if (bytes >= 1e6) return `${Math.round(bytes / 1e6)} MB`;
+    return `${Math.round(bytes / 1e3)} KB`;
+}
+
+/** A pull in progress, kept across re-renders of the settings tab. */
+interface PullState {
+    model: string;
+    progress: OllamaPullProgress | null;
+    controller: AbortController;
+}
+
+/**
+ * Manage the models on the configured Ollama server from the settings tab:
+ * list installed models with their size and context length, pull new ones
+ * with live progress, delete them, and flag configured chat/embedding models
+ * that aren't installed.
+ *
+ * One instance lives as long as the settings tab, so a pull keeps running
+ * (and its progress keeps showing) when the tab re-renders.
+ */
+export class OllamaModelPanel {
+    private containerEl: HTMLElement | null = null;
+    private pull: PullState | null = null;
+    private progressEl: HTMLProgressElement | null = null;
+    private progressTextEl: HTMLElement | null = null;
+
+    constructor(
+        private app: App,
+        private getSettings: () => MyPluginSettings
+    ) {}
+
+    private provider(): OllamaProvider {
+        const settings = this.getSettings();
+        return new OllamaProvider({
+            baseUrl: settings.ollamaBaseUrl,
+            chatModel: settings.ollamaModel,
+            embeddingModel: settings.ollamaEmbeddingModel,
+        });
+    }
+
+    /** Render (or re-render) the panel into `containerEl`. */
+    async render(containerEl: HTMLElement): Promise<void> {
+        this.containerEl = containerEl;
+        containerEl.empty();
+        containerEl.addClass("ollama-model-panel");
+
+        this.renderPullControls(containerEl);
+
+        const listEl = containerEl.createDiv({ cls: "ollama-model-list" });
+        listEl.createEl("p", { text: "Loading installed models...", cls: "settings-section-desc" });
+
+        const provider = this.provider();
+        const response = await provider.listModels();
+        if (this.containerEl !== containerEl) return;
+        listEl.empty();
+
+        if (response.error) {
+            new Setting(listEl)
+                .setName("Could not list installed models")
+                .setDesc(response.error)
+                .addButton(button => button
+                    .setButtonText("Retry")
+                    .onClick(() => { void this.render(containerEl); }));
+            return;
+        }
+
+        this.renderMissingModelWarnings(listEl, response.models);
+
+        if (response.models.length === 0) {
+            listEl.createEl("p", { text: "No models installed yet. Pull one above.", cls: "settings-section-desc" });
+            return;
+        }
+
+        const sorted = [...response.models].sort((a, b) => a.id.localeCompare(b.id));
+        const rows = sorted.map(model => ({ model, setting: this.renderModelRow(listEl, model) }));
+
+        // Sizes come with the listing; context length needs one /api/show per model.
+        await Promise.all(rows.map(async ({ model, setting }) => {
+            const details = await provider.showModel(model.id);
+            if (this.containerEl === containerEl) {
+                setting.setDesc(this.describeModel(model, details));
+            }
+        }));
+    }
+
+    private describeModel(model: ModelInfo, details?: OllamaModelDetails): string {
+        const parts: string[] = [];
+        if (model.sizeBytes !== undefined) parts.push(formatBytes(model.sizeBytes));
+        if (details?.parameterSize) parts.push(`${details.parameterSize} parameters`);
+        if (details?.quantization) parts.push(details.quantization);
+        if (details?.contextLength) parts.push(`${details.contextLength.toLocaleString()} token context`);
+        const isEmbedding = details?.capabilities
+            ? details.capabilities.includes("embedding")
+            : model.capabilities?.includes("embedding");
+        if (isEmbedding) parts.push("embedding model");
+        return parts.join(" · ");
+    }
+
+    private renderModelRow(containerEl: HTMLElement, model: ModelInfo): Setting {
+        return new Setting(containerEl)
+            .setName(model.id)
+            .setDesc(this.describeModel(model))
+            .addExtraButton(button => button
+                .setIcon("trash")
+                .setTooltip("Delete model")
+                .onClick(() => { void this.deleteModel(model.id); }));
+    }
+
+    /**
+     * Warn about configured Ollama models that aren't installed, each with a
+     * button that pulls it.
+     */
+    private renderMissingModelWarnings(containerEl: HTMLElement, installed: ModelInfo[]): void {
+        const settings = this.getSettings();
+        const installedNames = new Set(installed.map(model => withDefaultTag(model.id)));
+        const configured: Array<{ label: string; model: string }> = [];
+
+        if (settings.chatProvider === "ollama" || settings.chatFallbackProviders.includes("ollama")) {
+            configured.push({ label: "Chat model", model: settings.ollamaModel });
+        }
+        if (settings.utilityProvider === "ollama" && settings.utilityModel.trim()) {
+            configured.push({ label: "Utility model", model: settings.utilityModel });
+        }
+        if (settings.embeddingProvider === "ollama" || settings.embeddingFallbackProviders.includes("ollama")) {
+            configured.push({ label: "Embedding model", model: settings.ollamaEmbeddingModel });
+        }
+
+        for (const { label, model } of configured) {
+            if (!model.trim() || installedNames.has(withDefaultTag(model))) continue;
+            const setting = new Setting(containerEl)
+                .setName(`${label} "${model}" is not installed`)
+                .setDesc("Requests using it will fail until it is pulled.")
+                .addButton(button => button
+                    .setButtonText("Pull")
+                    .setDisabled(this.pull !== null)
+                    .onClick(() => { void this.pullModel(model); }));
+            setting.settingEl.addClass("ollama-model-warning");
+        }
+    }
+
+    private renderPullControls(containerEl: HTMLElement): void {
+        let modelName = "";
+        new Setting(containerEl)
+            .setName("Pull a model")
+            .setDesc("Download a model from the model library by name, with an optional tag after a colon.")
+            .addText(text => text
+                .setPlaceholder("Model name")
+                .onChange(value => { modelName = value; }))
+            .addButton(button => {
+                if (this.pull) {
+                    button.setButtonText("Cancel").onClick(() => this.pull?.controller.abort());
+                } else {
+                    button.setButtonText("Pull").setCta().onClick(() => {
+                        if (modelName.trim()) void this.pullModel(modelName.trim());
+                    });
+                }
+            })
+            .addExtraButton(button => button
+                .setIcon("refresh-cw")
+                .setTooltip("Refresh installed models")
+                .onClick(() => { void this.render(containerEl); }));
+
+        const progressRow = containerEl.createDiv({ cls: "ollama-pull-progress" });
+        this.progressTextEl = progressRow.createDiv({ cls: "ollama-pull-status" });
+        this.progressEl = progressRow.createEl("progress");
+        progressRow.toggle(this.pull !== null);
+        this.updateProgress();
+    }
+
+    /** Reflect the current pull's progress in the (current) progress elements. */
+    private updateProgress(): void {
+        if (!this.pull || !this.progressEl || !this.progressTextEl) return;
+        const progress = this.pull.progress;
+        const { completed, total } = progress ?? {};
+        if (completed !== undefined && total) {
+            this.progressEl.max = total;
+            this.progressEl.value = completed;
+            const percent = Math.floor((completed / total) * 100);
+            this.progressTextEl.setText(`Pulling ${this.pull.model}: ${percent}% of ${formatBytes(total)}`);
+        } else {
+            // Indeterminate while Ollama resolves the manifest or verifies layers
+            this.progressEl.removeAttribute("value");
+            this.progressTextEl.setText(`Pulling ${this.pull.model}: ${progress?.status ?? "starting"}...`);
+        }
+    }
+
+    private async pullModel(model: string): Promise<void> {
+        if (this.pull) return;
+        const controller = new AbortController();
+        this.pull = { model, progress: null, controller };
+        this.rerender();
+
+        try {
+            const result = await this.provider().pullModel(model, (progress) => {
+                if (this.pull) {
+                    this.pull.progress = progress;
+                    this.updateProgress();
+                }
+            }, { signal: controller.signal });
+
+            if (result.error) {
+                new Notice(`Could not pull ${model}: ${result.error}`);
+            } else {
+                new Notice(`Pulled ${model}`);
+            }
+        } catch (error) {
+            if (!isAbortError(error)) throw error;
+            new Notice(`Stopped pulling ${model}`);
+        } finally {
+            this.pull = null;
+            this.rerender();
+        }
+    }
+
+    private async deleteModel(model: string): Promise<void> {
+        const confirmed = await new Promise<boolean>((resolve) => {
+            new ConfirmModal(
+                this.app,
+                "Delete model",
+                `Delete ${model} from your Ollama server? You can pull it again later.`,
+                resolve,
+                "Delete"
+            ).open();
+        });
+        if (!confirmed) return;
+
+        const result = await this.provider().deleteModel(model);
+        if (result.error) {
+            new Notice(`Could not delete ${model}: ${result.error}`);
+        } else {
+            new Notice(`Deleted ${model}`);
+        }
+        this.rerender();
+    }
+
+    private rerender(): void {
+        if (this.containerEl) {
+            void this.render(this.containerEl);
+        }
+    }
+}
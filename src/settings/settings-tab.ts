@@ -1,9 +1,26 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, DropdownComponent, Notice, PluginSettingTab, Setting, TextComponent } from "obsidian";
 import type MyPlugin from "../main";
 import { IndexedFilesModal } from "./indexed-files-modal";
 import { UserGuideModal } from "./user-guide-modal";
-import { CHAT_PROVIDER_LABELS, EMBEDDING_PROVIDER_LABELS } from "../llm/factory";
-import type { ChatProviderId, EmbeddingProviderId } from "../llm/types";
+import { ModelSuggestModal } from "./model-suggest-modal";
+import { formatBytes, OllamaModelPanel } from "./ollama-model-panel";
+import {
+	getChatModel,
+	getEmbeddingDimensions,
+	getEmbeddingModel,
+	getEmbeddingProviderChain,
+	getProviderLabel,
+	isChatProviderConfigured,
+	isEmbeddingProviderConfigured,
+	listProviderModels,
+	normalizeEmbeddingModel,
+	providerRegistry,
+} from "../llm/factory";
+import { getProviderValues, setProviderValue } from "../llm/registry";
+import type { EmbeddingProviderId, GenerationOptions, ModelCapability, ModelInfo } from "../llm/types";
+import { getReducibleEmbeddingDimensions } from "../llm/models";
+import { monthKey } from "../llm/usage";
+import { detectEmbeddingProfile, EMBEDDING_PROFILE_LABELS, EmbeddingProfileId } from "../indexer/embedding-profiles";
 
 /**
  * Render a section heading with a one-line, plain-language description
@@ -15,14 +32,28 @@ function addSectionHeading(containerEl: HTMLElement, title: string, description:
 	containerEl.createEl("p", { text: description, cls: "settings-section-desc" });
 }
 
+/** Which provider listing a model field draws its choices from. */
+interface ModelSource {
+	provider: string;
+	capability: ModelCapability;
+}
+
+function modelSourceKey(source: ModelSource): string {
+	return `${source.provider}:${source.capability}`;
+}
+
 export class SampleSettingTab extends PluginSettingTab {
 	plugin: MyPlugin;
+	/** Model listings fetched this session, by {@link modelSourceKey}; reloaded via the refresh button. */
+	private modelCache = new Map<string, ModelInfo[]>();
+	private ollamaPanel: OllamaModelPanel;
 	private fileCountEl: HTMLElement | null = null;
 	private lastIndexedEl: HTMLElement | null = null;
 
 	constructor(app: App, plugin: MyPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
+		this.ollamaPanel = new OllamaModelPanel(app, () => this.plugin.settings);
 	}
 
 	display(): void {
@@ -49,36 +80,114 @@ export class SampleSettingTab extends PluginSettingTab {
 			.setName('Chat provider')
 			.setDesc('Which AI service answers your questions in the chat view.')
 			.addDropdown(dropdown => {
-				for (const id of Object.keys(CHAT_PROVIDER_LABELS) as ChatProviderId[]) {
-					dropdown.addOption(id, CHAT_PROVIDER_LABELS[id]);
-				}
+				this.addProviderOptions(dropdown, 'chat', this.plugin.settings.chatProvider);
 				dropdown
 					.setValue(this.plugin.settings.chatProvider)
 					.onChange(async (value) => {
-						this.plugin.settings.chatProvider = value as ChatProviderId;
+						this.plugin.settings.chatProvider = value;
 						await this.plugin.saveSettings();
 						this.display();
 					});
 			});
-		this.renderChatProviderFields(containerEl);
+		this.renderProviderFields(containerEl, this.plugin.settings.chatProvider, 'chat');
+		this.renderFallbackChain(
+			containerEl,
+			'Fallback chat providers',
+			'If the chat provider fails (outage, rate limit, timeout), these are tried in order. Each one needs its own credentials.',
+			providerRegistry.getLabels('chat'),
+			this.plugin.settings.chatProvider,
+			() => this.plugin.settings.chatFallbackProviders,
+			(chain) => { this.plugin.settings.chatFallbackProviders = chain; },
+			(id) => isChatProviderConfigured(this.plugin.settings, id) ? null : 'Not configured yet; fill in its settings below.',
+			(el, id) => this.renderProviderFields(el, id, 'chat')
+		);
+
+		new Setting(containerEl).setName("Utility model").setHeading();
+		this.renderUtilityModelSettings(containerEl);
 
 		containerEl.createEl("h4", { text: "Embeddings" });
 		new Setting(containerEl)
 			.setName('Embedding provider')
 			.setDesc('Which AI service turns your notes into searchable vectors during indexing. Can be a different service than chat (for example, a local Ollama model here with a hosted chat model above).')
 			.addDropdown(dropdown => {
-				for (const id of Object.keys(EMBEDDING_PROVIDER_LABELS) as EmbeddingProviderId[]) {
-					dropdown.addOption(id, EMBEDDING_PROVIDER_LABELS[id]);
-				}
+				this.addProviderOptions(dropdown, 'embeddings', this.plugin.settings.embeddingProvider);
 				dropdown
 					.setValue(this.plugin.settings.embeddingProvider)
 					.onChange(async (value) => {
-						this.plugin.settings.embeddingProvider = value as EmbeddingProviderId;
+						this.plugin.settings.embeddingProvider = value;
 						await this.plugin.saveSettings();
 						this.display();
 					});
 			});
-		this.renderEmbeddingProviderFields(containerEl);
+		this.renderProviderFields(containerEl, this.plugin.settings.embeddingProvider, 'embeddings');
+		this.renderEmbeddingProfileSettings(containerEl);
+		this.renderEmbeddingDimensionSettings(containerEl);
+		this.renderFallbackChain(
+			containerEl,
+			'Fallback embedding providers',
+			'Tried in order if the embedding provider fails. A fallback is only used when it runs the same embedding model, because vectors from different models cannot be searched together.',
+			providerRegistry.getLabels('embeddings'),
+			this.plugin.settings.embeddingProvider,
+			() => this.plugin.settings.embeddingFallbackProviders,
+			(chain) => { this.plugin.settings.embeddingFallbackProviders = chain; },
+			(id) => this.describeEmbeddingFallback(id),
+			(el, id) => this.renderProviderFields(el, id, 'embeddings')
+		);
+
+		new Setting(containerEl).setName("Connection").setHeading();
+		new Setting(containerEl)
+			.setName('Request timeout')
+			.setDesc('Seconds to wait for a provider before giving up on an attempt. For streamed answers this only covers the wait for the first words. Slow local models may need more; 0 disables the timeout.')
+			.addSlider(slider => slider
+				.setLimits(0, 600, 10)
+				.setValue(this.plugin.settings.requestTimeoutSeconds)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.requestTimeoutSeconds = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Max retries')
+			.setDesc('How many times to retry a request that failed for a temporary reason (rate limit, server error, timeout), waiting a little longer each time. Errors like an invalid API key are never retried.')
+			.addSlider(slider => slider
+				.setLimits(0, 6, 1)
+				.setValue(this.plugin.settings.maxRetries)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.maxRetries = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Parallel embedding requests')
+			.setDesc('The most embedding requests sent at once while indexing. Indexing starts with one and adds more while the provider keeps up, and backs off when it is rate limited or slows down. Use 1 for a local model on a busy machine.')
+			.addSlider(slider => slider
+				.setLimits(1, 16, 1)
+				.setValue(this.plugin.settings.embeddingConcurrency)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.embeddingConcurrency = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const settings = this.plugin.settings;
+		const usesOllama = settings.chatProvider === 'ollama'
+			|| settings.embeddingProvider === 'ollama'
+			|| settings.utilityProvider === 'ollama'
+			|| settings.chatFallbackProviders.includes('ollama')
+			|| settings.embeddingFallbackProviders.includes('ollama');
+
+		new Setting(containerEl).setName("Answer generation").setHeading();
+		this.renderGenerationSettings(
+			containerEl,
+			settings.chatProvider === 'ollama' || settings.chatFallbackProviders.includes('ollama')
+		);
+
+		if (usesOllama) {
+			new Setting(containerEl).setName("Ollama models").setHeading();
+			void this.ollamaPanel.render(containerEl.createDiv());
+		}
 
 		// ===== Vault Indexer Section =====
 		addSectionHeading(
@@ -350,6 +459,28 @@ export class SampleSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Compact vectors in memory')
+			.setDesc('Keep the vectors in memory at a quarter of their size, which helps on phones and with large vaults. Search first ranks notes with the compact vectors, then re-checks the best matches with the full vectors from disk, so results barely change. The diagnostics command shows how closely they match for your vault.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.quantizeVectors)
+				.onChange(async (value) => {
+					this.plugin.settings.quantizeVectors = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Fast search from this many chunks')
+			.setDesc('Once the index holds this many chunks, search follows a graph of similar chunks instead of comparing the question with every chunk. This is much faster in large vaults but can occasionally miss a close match. The graph is built in the background and saved with the index. Set to 0 to always compare every chunk.')
+			.addSlider(slider => slider
+				.setLimits(0, 100000, 5000)
+				.setValue(this.plugin.settings.searchGraphThreshold)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.searchGraphThreshold = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// ===== Query Enhancement Section =====
 		addSectionHeading(
 			containerEl,
@@ -399,113 +530,509 @@ export class SampleSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Agent mode')
+			.setDesc('Let the model search, read and browse your notes itself, as many times as it needs, instead of answering from a single search. Better for questions that span several notes, but slower and uses more tokens. Needs a chat model that supports tool calling; with other providers the regular search is used. The steps above are skipped in this mode.'
+				+ (providerRegistry.get(this.plugin.settings.chatProvider)?.capabilities.tools === false
+					? ` ${getProviderLabel(this.plugin.settings.chatProvider)} does not support tool calling, so agent mode has no effect with it.`
+					: ''))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.agentMode)
+				.onChange(async (value) => {
+					this.plugin.settings.agentMode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Agent step limit')
+			.setDesc('Most rounds of tool calls per question in agent mode. When reached, the model answers with what it has found so far.')
+			.addSlider(slider => slider
+				.setLimits(1, 15, 1)
+				.setValue(this.plugin.settings.agentMaxSteps)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.agentMaxSteps = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// ===== Usage Section =====
+		addSectionHeading(
+			containerEl,
+			"Usage and cost",
+			"Tokens used and an estimate of what they cost, per provider and model. Estimates use published list prices; your bill is what counts."
+		);
+		this.renderUsageSection(containerEl);
 	}
 
-	/** Render the API key/base URL + model fields for the selected chat provider. */
-	private renderChatProviderFields(containerEl: HTMLElement): void {
-		switch (this.plugin.settings.chatProvider) {
-			case 'openai':
-				this.addApiKeySetting(
-					containerEl,
-					'OpenAI API key',
-					'Get one at platform.openai.com.',
-					'sk-...',
-					() => this.plugin.settings.openAIApiKey,
-					(value) => { this.plugin.settings.openAIApiKey = value; }
-				);
-				this.addModelSetting(
-					containerEl,
-					'Chat model',
-					'The model ID to use for chat (e.g., gpt-4o-mini, gpt-4o).',
-					'gpt-4o-mini',
-					() => this.plugin.settings.openAIModel,
-					(value) => { this.plugin.settings.openAIModel = value; }
-				);
-				break;
-			case 'ollama':
-				this.addOllamaBaseUrlSetting(containerEl);
-				this.addModelSetting(
-					containerEl,
-					'Chat model',
-					'The name of a model you have pulled locally (e.g., llama3.1, mistral, qwen2.5).',
-					'llama3.1',
-					() => this.plugin.settings.ollamaModel,
-					(value) => { this.plugin.settings.ollamaModel = value; }
-				);
-				break;
-			case 'openrouter':
-			default:
-				this.addApiKeySetting(
-					containerEl,
-					'OpenRouter API key',
-					'Get one at openrouter.ai.',
-					'sk-or-...',
-					() => this.plugin.settings.openRouterApiKey,
-					(value) => { this.plugin.settings.openRouterApiKey = value; }
-				);
-				this.addModelSetting(
-					containerEl,
-					'Chat model',
-					'The model ID to use for chat (e.g., google/gemini-2.5-flash, openai/gpt-4o, anthropic/claude-3.5-sonnet).',
-					'google/gemini-2.5-flash',
-					() => this.plugin.settings.openRouterModel,
-					(value) => { this.plugin.settings.openRouterModel = value; }
-				);
-				break;
+	/**
+	 * This month's usage table, the spending cap, price overrides and a reset
+	 * button.
+	 */
+	private renderUsageSection(containerEl: HTMLElement): void {
+		const month = monthKey();
+		const totals = this.plugin.settings.usageTotals.filter(total => total.month === month);
+
+		if (totals.length === 0) {
+			containerEl.createEl("p", { text: "No usage recorded this month yet.", cls: "settings-section-desc" });
+		} else {
+			const table = containerEl.createEl("table", { cls: "usage-summary-table" });
+			const head = table.createEl("tr");
+			for (const label of ["Provider", "Model", "Calls", "Tokens in", "Tokens out", "Est. cost"]) {
+				head.createEl("th", { text: label });
+			}
+			for (const total of totals) {
+				const row = table.createEl("tr");
+				row.createEl("td", { text: total.provider });
+				row.createEl("td", { text: total.model });
+				row.createEl("td", { text: total.calls.toLocaleString() });
+				row.createEl("td", { text: total.promptTokens.toLocaleString() });
+				row.createEl("td", { text: total.completionTokens.toLocaleString() });
+				row.createEl("td", { text: `$${total.costUsd.toFixed(4)}` });
+			}
+			containerEl.createEl("p", {
+				text: `Estimated total this month: $${this.plugin.usageMeter.getMonthlyCost(month).toFixed(2)}. Models without a known price count as $0.`,
+				cls: "settings-section-desc"
+			});
 		}
+
+		new Setting(containerEl)
+			.setName('Monthly spending cap')
+			.setDesc('Amount in dollars. Once this month\'s estimated spend reaches it, requests to paid providers are blocked (fallback providers running locally still work). 0 means no cap.')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(String(this.plugin.settings.monthlySpendingCap))
+				.onChange(async (value) => {
+					const cap = Number(value);
+					if (Number.isFinite(cap) && cap >= 0) {
+						this.plugin.settings.monthlySpendingCap = cap;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Model prices')
+			.setDesc('Add or override prices used for estimates, one model per line: model name, then input and output price in dollars per million tokens.')
+			.addTextArea(textArea => {
+				textArea
+					.setPlaceholder('Example: my-model: 0.50, 1.50')
+					.setValue(this.plugin.settings.customModelPrices)
+					.onChange(async (value) => {
+						this.plugin.settings.customModelPrices = value;
+						await this.plugin.saveSettings();
+					});
+				textArea.inputEl.rows = 3;
+				textArea.inputEl.cols = 40;
+				return textArea;
+			});
+
+		new Setting(containerEl)
+			.setName('Reset usage statistics')
+			.setDesc('Clear the recorded totals for all months. Per-message usage in the chat is kept.')
+			.addButton(button => button
+				.setButtonText('Reset')
+				.onClick(async () => {
+					this.plugin.settings.usageTotals = [];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
 	}
 
-	/** Render the API key/base URL + model fields for the selected embedding provider. */
-	private renderEmbeddingProviderFields(containerEl: HTMLElement): void {
-		switch (this.plugin.settings.embeddingProvider) {
-			case 'openai':
-				this.addApiKeySetting(
-					containerEl,
-					'OpenAI API key',
-					'Get one at platform.openai.com.',
-					'sk-...',
-					() => this.plugin.settings.openAIApiKey,
-					(value) => { this.plugin.settings.openAIApiKey = value; }
-				);
-				this.addModelSetting(
-					containerEl,
-					'Embedding model',
-					'The model ID to use for embeddings (e.g., text-embedding-3-small).',
-					'text-embedding-3-small',
-					() => this.plugin.settings.openAIEmbeddingModel,
-					(value) => { this.plugin.settings.openAIEmbeddingModel = value; }
-				);
-				break;
-			case 'ollama':
-				this.addOllamaBaseUrlSetting(containerEl);
-				this.addModelSetting(
-					containerEl,
-					'Embedding model',
-					'The name of a local embedding model you have pulled (e.g., nomic-embed-text).',
-					'nomic-embed-text',
-					() => this.plugin.settings.ollamaEmbeddingModel,
-					(value) => { this.plugin.settings.ollamaEmbeddingModel = value; }
-				);
-				break;
-			case 'openrouter':
-			default:
-				this.addApiKeySetting(
-					containerEl,
-					'OpenRouter API key',
-					'Get one at openrouter.ai.',
-					'sk-or-...',
-					() => this.plugin.settings.openRouterApiKey,
-					(value) => { this.plugin.settings.openRouterApiKey = value; }
-				);
-				this.addModelSetting(
-					containerEl,
-					'Embedding model',
-					'The model ID to use for embeddings (e.g., openai/text-embedding-3-small).',
-					'openai/text-embedding-3-small',
-					() => this.plugin.settings.openRouterEmbeddingModel,
-					(value) => { this.plugin.settings.openRouterEmbeddingModel = value; }
-				);
-				break;
+	/**
+	 * The optional separate provider and model for query rewriting, HyDE and
+	 * reranking. A provider other than the chat provider that has no
+	 * credentials yet gets its own fields here, so it can be set up in place.
+	 */
+	private renderUtilityModelSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl)
+			.setName('Utility provider')
+			.setDesc('The extra steps from query enhancement (rewriting, hypothetical answers, reranking) run on this provider, so only the final answer uses the chat model. A small or local model keeps these extra calls cheap.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Same as chat provider');
+				this.addProviderOptions(dropdown, 'chat', settings.utilityProvider);
+				dropdown
+					.setValue(settings.utilityProvider)
+					.onChange(async (value) => {
+						this.plugin.settings.utilityProvider = value;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		const id = settings.utilityProvider;
+		if (!id) {
+			return;
+		}
+
+		if (id !== settings.chatProvider && !isChatProviderConfigured(settings, id)) {
+			containerEl.createEl("p", {
+				text: `${getProviderLabel(id)} is not configured yet, so the chat provider is used for now. Fill in its settings:`,
+				cls: "settings-section-desc"
+			});
+			this.renderProviderFields(containerEl.createDiv({ cls: "settings-fallback-provider" }), id, 'chat');
+		}
+
+		this.addModelSetting(
+			containerEl,
+			{ provider: id, capability: 'chat' },
+			'Utility model',
+			`Model for the extra calls. Leave blank to use the chat model configured for this provider (${getChatModel(settings, id) || 'none set'}).`,
+			getChatModel(settings, id),
+			() => this.plugin.settings.utilityModel,
+			(value) => { this.plugin.settings.utilityModel = value; }
+		);
+	}
+
+	/**
+	 * Task prefixes for asymmetric embedding models. The document prefix is
+	 * part of each chunk's content hash, so a change re-embeds every chunk on
+	 * the next index rebuild.
+	 */
+	private renderEmbeddingProfileSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		const detected = detectEmbeddingProfile(getEmbeddingModel(settings, settings.embeddingProvider));
+		new Setting(containerEl)
+			.setName('Embedding prefixes')
+			.setDesc(`Some local embedding models expect searches and notes to be marked with different prefixes, and find notes noticeably better with them. Automatic picks them from the model name (currently: ${EMBEDDING_PROFILE_LABELS[detected]}). Changing this re-embeds all notes on the next index rebuild.`)
+			.addDropdown(dropdown => {
+				for (const id of Object.keys(EMBEDDING_PROFILE_LABELS) as EmbeddingProfileId[]) {
+					dropdown.addOption(id, EMBEDDING_PROFILE_LABELS[id]);
+				}
+				dropdown
+					.setValue(settings.embeddingProfile)
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingProfile = value as EmbeddingProfileId;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		if (settings.embeddingProfile !== 'custom') {
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName('Query prefix')
+			.setDesc('Added before every search query, including its trailing space if the model expects one.')
+			.addText(text => text
+				.setPlaceholder('Example: search_query: ')
+				.setValue(settings.embeddingQueryPrefix)
+				.onChange(async (value) => {
+					this.plugin.settings.embeddingQueryPrefix = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Document prefix')
+			.setDesc('Added before every chunk of a note when it is embedded.')
+			.addText(text => text
+				.setPlaceholder('Example: search_document: ')
+				.setValue(settings.embeddingDocumentPrefix)
+				.onChange(async (value) => {
+					this.plugin.settings.embeddingDocumentPrefix = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/**
+	 * Shortened embeddings for OpenAI's text-embedding-3 models, with the
+	 * storage they would save on this vault. Shown only when the embedding
+	 * provider and model support it.
+	 */
+	private renderEmbeddingDimensionSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		const id = settings.embeddingProvider;
+		const full = getReducibleEmbeddingDimensions(getEmbeddingModel(settings, id));
+		if ((id !== 'openai' && id !== 'openrouter') || full === undefined) {
+			return;
+		}
+
+		const current = getEmbeddingDimensions(settings, id) ?? full;
+		const storedCount = this.plugin.vectorStore?.getVectorCount() ?? 0;
+		const count = storedCount > 0 ? storedCount : 10000;
+		// Vectors are stored as 4-byte floats, on disk and in memory alike.
+		const describe = (dimensions: number) =>
+			`about ${formatBytes(count * dimensions * 4)} on disk and in memory`;
+		const estimate = current < full
+			? `At ${current} dimensions, ${describe(current)} instead of ${describe(full)} at full size (${Math.round((1 - current / full) * 100)}% less).`
+			: `At full size (${full} dimensions), ${describe(full)}.`;
+
+		new Setting(containerEl)
+			.setName('Embedding dimensions')
+			.setDesc(`Shorter vectors make the index smaller and search faster, at a small cost in search quality. ${storedCount > 0 ? `For your ${count.toLocaleString()} chunks: ` : `For ${count.toLocaleString()} chunks: `}${estimate} Changing this re-embeds all notes.`)
+			.addDropdown(dropdown => {
+				dropdown.addOption('0', `Full (${full})`);
+				for (const dimensions of [2048, 1536, 1024, 768, 512, 256]) {
+					if (dimensions < full) {
+						dropdown.addOption(String(dimensions), String(dimensions));
+					}
+				}
+				dropdown
+					.setValue(String(current < full ? current : 0))
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingDimensions = Number(value);
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+	}
+
+	/**
+	 * Settings for how answers are sampled. Every field is optional: a blank
+	 * field sends nothing, leaving the provider's or model's own default.
+	 *
+	 * @param showOllama Whether to include the Ollama-only runtime options
+	 */
+	private renderGenerationSettings(containerEl: HTMLElement, showOllama: boolean): void {
+		const update = async (patch: Partial<GenerationOptions>) => {
+			// Replace rather than mutate, so the shared default object is never changed.
+			this.plugin.settings.answerGeneration = { ...this.plugin.settings.answerGeneration, ...patch };
+			await this.plugin.saveSettings();
+		};
+		const addNumber = (
+			name: string,
+			desc: string,
+			key: 'temperature' | 'topP' | 'maxTokens' | 'seed' | 'numCtx',
+			isValid: (value: number) => boolean
+		) => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => text
+					.setPlaceholder('Default')
+					.setValue(this.plugin.settings.answerGeneration[key]?.toString() ?? '')
+					.onChange(async (value) => {
+						if (!value.trim()) {
+							await update({ [key]: undefined });
+							return;
+						}
+						const parsed = Number(value);
+						if (Number.isFinite(parsed) && isValid(parsed)) {
+							await update({ [key]: parsed });
+						}
+					}));
+		};
+
+		containerEl.createEl("p", {
+			text: "Leave a field blank to use the provider's default. These apply to answers only; query rewriting and reranking always use a temperature of 0.",
+			cls: "settings-section-desc"
+		});
+
+		addNumber('Temperature', 'Higher values give more varied answers, lower values more focused ones. Usually between 0 and 1.', 'temperature', v => v >= 0 && v <= 2);
+		addNumber('Top P', 'Only sample from the most likely words whose probabilities add up to this value, between 0 and 1. Anthropic models ignore it when a temperature is set.', 'topP', v => v > 0 && v <= 1);
+		addNumber('Max output tokens', 'Longest answer the model may write. Anthropic requires a limit and uses 4096 when this is blank.', 'maxTokens', v => Number.isInteger(v) && v > 0);
+		addNumber('Seed', 'Fixed seed for more repeatable answers, where the provider supports it.', 'seed', v => Number.isInteger(v));
+
+		new Setting(containerEl)
+			.setName('Stop sequences')
+			.setDesc('End the answer as soon as the model writes one of these, one per line. Some providers accept at most four.')
+			.addTextArea(textArea => {
+				textArea
+					.setValue((this.plugin.settings.answerGeneration.stop ?? []).join('\n'))
+					.onChange(async (value) => {
+						const stop = value.split('\n').filter(line => line.length > 0);
+						await update({ stop: stop.length > 0 ? stop : undefined });
+					});
+				textArea.inputEl.rows = 2;
+				return textArea;
+			});
+
+		if (!showOllama) {
+			return;
+		}
+
+		addNumber('Context window', 'Tokens the local model can see at once (num_ctx). Larger windows fit more notes but use more memory. Also used for query rewriting and reranking.', 'numCtx', v => Number.isInteger(v) && v > 0);
+
+		new Setting(containerEl)
+			.setName('Keep model loaded')
+			.setDesc('How long the local model stays in memory after a request, such as 10m or 1h. -1 keeps it loaded until the server stops.')
+			.addText(text => text
+				.setPlaceholder('Default')
+				.setValue(this.plugin.settings.answerGeneration.keepAlive ?? '')
+				.onChange(async (value) => {
+					await update({ keepAlive: value.trim() || undefined });
+				}));
+	}
+
+	/**
+	 * Render an ordered fallback list: one row per fallback with move/remove
+	 * buttons and that provider's own fields underneath, then a dropdown to
+	 * append another provider.
+	 *
+	 * @param getProblem Returns why a fallback would be skipped, or null
+	 */
+	private renderFallbackChain<Id extends string>(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		labels: Record<Id, string>,
+		primary: Id,
+		getChain: () => Id[],
+		setChain: (chain: Id[]) => void,
+		getProblem: (id: Id) => string | null,
+		renderFields: (containerEl: HTMLElement, id: Id) => void
+	): void {
+		const chain = getChain().filter(id => id !== primary && id in labels);
+		// Always assign a fresh array so the shared default is never mutated.
+		const save = async (next: Id[]) => {
+			setChain(next);
+			await this.plugin.saveSettings();
+			this.display();
+		};
+
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Add fallback...');
+				for (const id of Object.keys(labels) as Id[]) {
+					if (id !== primary && !chain.includes(id)) {
+						dropdown.addOption(id, labels[id]);
+					}
+				}
+				dropdown.setValue('').onChange(async (value) => {
+					if (value) await save([...chain, value as Id]);
+				});
+			});
+
+		chain.forEach((id, index) => {
+			const fallbackEl = containerEl.createDiv({ cls: 'settings-fallback-provider' });
+			const problem = getProblem(id);
+			new Setting(fallbackEl)
+				.setName(`Fallback ${index + 1}: ${labels[id]}`)
+				.setDesc(problem ?? '')
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Try earlier')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						if (index === 0) return;
+						const next = [...chain];
+						[next[index - 1], next[index]] = [id, next[index - 1] as Id];
+						await save(next);
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Try later')
+					.setDisabled(index === chain.length - 1)
+					.onClick(async () => {
+						if (index === chain.length - 1) return;
+						const next = [...chain];
+						[next[index + 1], next[index]] = [id, next[index + 1] as Id];
+						await save(next);
+					}))
+				.addExtraButton(button => button
+					.setIcon('x')
+					.setTooltip('Remove')
+					.onClick(async () => {
+						await save(chain.filter(other => other !== id));
+					}));
+			renderFields(fallbackEl, id);
+		});
+	}
+
+	/** Why an embedding fallback would be skipped (no credentials or a different model), or null. */
+	private describeEmbeddingFallback(id: EmbeddingProviderId): string | null {
+		const settings = this.plugin.settings;
+		if (!isEmbeddingProviderConfigured(settings, id)) {
+			return 'Not configured yet; fill in its settings below.';
+		}
+		if (!getEmbeddingProviderChain(settings).includes(id)) {
+			const model = getEmbeddingModel(settings, settings.embeddingProvider);
+			if (normalizeEmbeddingModel(getEmbeddingModel(settings, id)) !== normalizeEmbeddingModel(model)) {
+				return `Skipped: it uses the embedding model "${getEmbeddingModel(settings, id)}", but your index is built with "${model}".`;
+			}
+			const dimensions = getEmbeddingDimensions(settings, settings.embeddingProvider);
+			return dimensions !== undefined
+				? `Skipped: it can't shorten embeddings to ${dimensions} dimensions like your embedding provider does.`
+				: 'Skipped: it would shorten embeddings, but your index uses full-size vectors.';
+		}
+		return null;
+	}
+
+	/**
+	 * Render a provider's settings from its registered field schema: the
+	 * connection fields (API key, base URL, ...) plus the model field for
+	 * `capability`. Connection fields are shared by chat and embeddings, so
+	 * editing them in either place updates both.
+	 */
+	private renderProviderFields(containerEl: HTMLElement, id: string, capability: 'chat' | 'embeddings'): void {
+		const definition = providerRegistry.get(id);
+		if (!definition) {
+			containerEl.createEl("p", {
+				text: `The provider "${id}" is not available. If another plugin adds it, check that the plugin is enabled.`,
+				cls: "settings-section-desc"
+			});
+			return;
+		}
+
+		const modelKind = capability === 'chat' ? 'chat-model' : 'embedding-model';
+		const getValue = (key: string) => getProviderValues(this.plugin.settings, definition)[key] ?? '';
+		const setValue = (key: string) => (value: string) => setProviderValue(this.plugin.settings, definition, key, value);
+		for (const field of definition.fields) {
+			switch (field.kind) {
+				case 'secret':
+					this.addApiKeySetting(containerEl, field.name, field.desc, field.placeholder ?? '', () => getValue(field.key), setValue(field.key));
+					break;
+				case 'textarea':
+					new Setting(containerEl)
+						.setName(field.name)
+						.setDesc(field.desc)
+						.addTextArea(textArea => {
+							textArea
+								.setPlaceholder(field.placeholder ?? '')
+								.setValue(getValue(field.key))
+								.onChange(async (value) => {
+									setValue(field.key)(value);
+									await this.plugin.saveSettings();
+								});
+							textArea.inputEl.rows = 3;
+							textArea.inputEl.cols = 40;
+							return textArea;
+						});
+					break;
+				case 'chat-model':
+				case 'embedding-model':
+					if (field.kind !== modelKind) break;
+					this.addModelSetting(
+						containerEl,
+						{ provider: id, capability: capability === 'chat' ? 'chat' : 'embedding' },
+						field.name,
+						field.desc,
+						field.placeholder ?? '',
+						() => getValue(field.key),
+						setValue(field.key)
+					);
+					break;
+				case 'text':
+				default:
+					new Setting(containerEl)
+						.setName(field.name)
+						.setDesc(field.desc)
+						.addText(text => text
+							.setPlaceholder(field.placeholder ?? '')
+							.setValue(getValue(field.key))
+							.onChange(async (value) => {
+								setValue(field.key)(value);
+								await this.plugin.saveSettings();
+							}));
+					break;
+			}
+		}
+	}
+
+	/**
+	 * Fill a provider dropdown with the registered providers for `capability`.
+	 * A selected provider that is no longer registered stays listed, marked
+	 * unavailable, so the setting isn't silently shown as something else.
+	 */
+	private addProviderOptions(dropdown: DropdownComponent, capability: 'chat' | 'embeddings', selected: string): void {
+		const labels = providerRegistry.getLabels(capability);
+		for (const [id, label] of Object.entries(labels)) {
+			dropdown.addOption(id, label);
+		}
+		if (selected && !(selected in labels)) {
+			dropdown.addOption(selected, `${selected} (not available)`);
 		}
 	}
 
@@ -532,37 +1059,91 @@ export class SampleSettingTab extends PluginSettingTab {
 			});
 	}
 
+	/**
+	 * A model name field. The name can always be typed freely (e.g. offline);
+	 * the list button opens a searchable picker over the provider's model
+	 * listing, and the refresh button reloads that listing. Once a listing is
+	 * loaded, a name that isn't in it is flagged as a likely typo.
+	 */
 	private addModelSetting(
 		containerEl: HTMLElement,
+		source: ModelSource,
 		name: string,
 		desc: string,
 		placeholder: string,
 		getValue: () => string,
 		setValue: (value: string) => void
 	): void {
-		new Setting(containerEl)
+		const setting = new Setting(containerEl)
 			.setName(name)
-			.setDesc(desc)
-			.addText(text => text
-				.setPlaceholder(placeholder)
-				.setValue(getValue())
-				.onChange(async (value) => {
-					setValue(value);
-					await this.plugin.saveSettings();
+			.setDesc(desc);
+		const warningEl = setting.descEl.createDiv({ cls: "setting-model-warning" });
+		const updateWarning = () => {
+			const models = this.modelCache.get(modelSourceKey(source));
+			const value = getValue().trim();
+			const known = !models || !value || models.some(model => model.id === value);
+			warningEl.setText(known ? "" : `"${value}" is not in this provider's model list. Check the spelling.`);
+		};
+		const save = async (value: string) => {
+			setValue(value);
+			await this.plugin.saveSettings();
+			updateWarning();
+		};
+
+		let textComponent: TextComponent | null = null;
+		setting
+			.addText(text => {
+				textComponent = text;
+				text.setPlaceholder(placeholder)
+					.setValue(getValue())
+					.onChange(save);
+			})
+			.addExtraButton(button => button
+				.setIcon('list')
+				.setTooltip('Choose from available models')
+				.onClick(async () => {
+					const models = await this.loadModels(source, false);
+					if (!models) return;
+					new ModelSuggestModal(this.app, models, (model) => {
+						textComponent?.setValue(model.id);
+						void save(model.id);
+					}).open();
+				}))
+			.addExtraButton(button => button
+				.setIcon('refresh-cw')
+				.setTooltip('Refresh model list')
+				.onClick(async () => {
+					const models = await this.loadModels(source, true);
+					if (models) {
+						new Notice(`Found ${models.length} ${models.length === 1 ? "model" : "models"}`);
+					}
+					updateWarning();
 				}));
+		updateWarning();
 	}
 
-	private addOllamaBaseUrlSetting(containerEl: HTMLElement): void {
-		new Setting(containerEl)
-			.setName('Ollama base URL')
-			.setDesc('Where your local Ollama server is running. No API key is needed, but Ollama must be running and reachable at this address.')
-			.addText(text => text
-				.setPlaceholder('http://localhost:11434')
-				.setValue(this.plugin.settings.ollamaBaseUrl)
-				.onChange(async (value) => {
-					this.plugin.settings.ollamaBaseUrl = value;
-					await this.plugin.saveSettings();
-				}));
+	/**
+	 * Fetch (or reuse) a provider's model listing. Failures are reported in a
+	 * notice and return null, leaving the free-text field as the way in.
+	 */
+	private async loadModels(source: ModelSource, refresh: boolean): Promise<ModelInfo[] | null> {
+		const key = modelSourceKey(source);
+		const cached = this.modelCache.get(key);
+		if (cached && !refresh) {
+			return cached;
+		}
+
+		const response = await listProviderModels(this.plugin.settings, source.provider, source.capability);
+		if (response.error) {
+			new Notice(`Could not load models: ${response.error}. You can still type a model name.`);
+			return null;
+		}
+		if (response.models.length === 0) {
+			new Notice("The provider listed no matching models. You can still type a model name.");
+			return null;
+		}
+		this.modelCache.set(key, response.models);
+		return response.models;
 	}
 
 	private updateIndexStats(): void {
@@ -1,11 +1,22 @@
 import type { ChunkingStrategy } from "../indexer/text-splitter";
 import type { HybridStrategy } from "../indexer/embedding-manager";
-import type { ChatProviderId, EmbeddingProviderId } from "../llm/types";
+import type { EmbeddingProfileId } from "../indexer/embedding-profiles";
+import type { ChatProviderId, EmbeddingProviderId, GenerationOptions } from "../llm/types";
+import type { ProviderValues } from "../llm/registry";
+import type { UsageRecord, UsageTotal } from "../llm/usage";
+import type { ToolCallRecord } from "../chat/agent";
 
 export interface ChatMessage {
     content: string;
     sender: "user" | "bot";
     timestamp: string;
+    /**
+     * Bot messages only: every LLM call made to produce this answer, the
+     * answer itself plus any hidden rewrite/HyDE/rerank calls.
+     */
+    usage?: UsageRecord[];
+    /** Bot messages only: the tool calls made in agent mode, in order. */
+    toolCalls?: ToolCallRecord[];
 }
 
 export interface MyPluginSettings {
@@ -20,9 +31,57 @@ export interface MyPluginSettings {
     openAIApiKey: string;
     openAIModel: string;
     openAIEmbeddingModel: string;
+    anthropicApiKey: string;
+    anthropicModel: string;
     ollamaBaseUrl: string;
     ollamaModel: string;
     ollamaEmbeddingModel: string;
+    /** Base URL of a custom OpenAI-compatible server, e.g. http://localhost:1234/v1. */
+    customBaseUrl: string;
+    /** Optional API key for the custom server; sent as a Bearer token when set. */
+    customApiKey: string;
+    /** Extra HTTP headers for the custom server, one `Name: value` per line. */
+    customHeaders: string;
+    customModel: string;
+    customEmbeddingModel: string;
+    /**
+     * Values for providers registered by other plugins, by provider id and
+     * field key. Built-in providers keep using the fields above.
+     */
+    providerSettings: Record<string, ProviderValues>;
+    /** Chat providers to try in order when the chat provider fails. */
+    chatFallbackProviders: ChatProviderId[];
+    /** Provider for query rewriting, HyDE and reranking; empty uses the chat provider. */
+    utilityProvider: ChatProviderId;
+    /** Model for the utility provider; empty uses that provider's chat model. */
+    utilityModel: string;
+    /**
+     * Embedding providers to try in order when the embedding provider fails.
+     * Only used when they serve the same embedding model.
+     */
+    embeddingFallbackProviders: EmbeddingProviderId[];
+    /** Task prefixes for asymmetric embedding models; "auto" picks them from the model name. */
+    embeddingProfile: EmbeddingProfileId;
+    /** Prefix for search queries when embeddingProfile is "custom". */
+    embeddingQueryPrefix: string;
+    /** Prefix for note chunks when embeddingProfile is "custom". */
+    embeddingDocumentPrefix: string;
+    /** Shortened embedding length for OpenAI text-embedding-3 models; 0 keeps the full size. */
+    embeddingDimensions: number;
+    /** Most embedding requests sent at once while indexing; fewer are used while the provider is slow or rate limiting. */
+    embeddingConcurrency: number;
+    /** Per-attempt timeout for provider requests, in seconds; 0 disables it. */
+    requestTimeoutSeconds: number;
+    /** Extra attempts for failed requests that are worth retrying (rate limits, server errors). */
+    maxRetries: number;
+    /** Estimated spend above which remote providers are no longer called this month, in USD; 0 disables the cap. */
+    monthlySpendingCap: number;
+    /** Price overrides, one `model: input, output` (USD per million tokens) per line. */
+    customModelPrices: string;
+    /** Token and cost totals per month, provider and model. */
+    usageTotals: UsageTotal[];
+    /** Sampling settings for answers; unset fields keep the provider default. */
+    answerGeneration: GenerationOptions;
     indexMarkdownOnly: boolean;
     enableRedaction: boolean;
     customRedactionPatterns: string;
@@ -38,10 +97,18 @@ export interface MyPluginSettings {
     relevanceThreshold: number;
     contextTokenBudget: number;
     neighborExpansion: boolean;
+    /** Keep stored vectors in memory as int8 codes and rescore the best matches at full precision from disk. */
+    quantizeVectors: boolean;
+    /** Index size (chunks) from which search walks an HNSW graph instead of scanning every vector; 0 disables it. */
+    searchGraphThreshold: number;
     queryRewriting: boolean;
     useHyde: boolean;
     useReranker: boolean;
     rerankCandidates: number;
+    /** Let the model search and read notes through tool calls instead of one retrieval up front. */
+    agentMode: boolean;
+    /** Most rounds of tool calls per question in agent mode. */
+    agentMaxSteps: number;
 }
 
 export const DEFAULT_SETTINGS: MyPluginSettings = {
@@ -54,9 +121,32 @@ export const DEFAULT_SETTINGS: MyPluginSettings = {
     openAIApiKey: '',
     openAIModel: 'gpt-4o-mini',
     openAIEmbeddingModel: 'text-embedding-3-small',
+    anthropicApiKey: '',
+    anthropicModel: 'claude-sonnet-4-5',
     ollamaBaseUrl: 'http://localhost:11434',
     ollamaModel: 'llama3.1',
     ollamaEmbeddingModel: 'nomic-embed-text',
+    customBaseUrl: '',
+    customApiKey: '',
+    customHeaders: '',
+    customModel: '',
+    customEmbeddingModel: '',
+    providerSettings: {},
+    chatFallbackProviders: [],
+    utilityProvider: '',
+    utilityModel: '',
+    embeddingFallbackProviders: [],
+    embeddingProfile: 'auto',
+    embeddingQueryPrefix: '',
+    embeddingDocumentPrefix: '',
+    embeddingDimensions: 0,
+    embeddingConcurrency: 4,
+    requestTimeoutSeconds: 120,
+    maxRetries: 3,
+    monthlySpendingCap: 0,
+    customModelPrices: '',
+    usageTotals: [],
+    answerGeneration: {},
     indexMarkdownOnly: true,
     enableRedaction: true,
     customRedactionPatterns: '',
@@ -72,8 +162,12 @@ export const DEFAULT_SETTINGS: MyPluginSettings = {
     relevanceThreshold: 0.5,
     contextTokenBudget: 6000,
     neighborExpansion: true,
+    quantizeVectors: false,
+    searchGraphThreshold: 20000,
     queryRewriting: true,
     useHyde: false,
     useReranker: false,
-    rerankCandidates: 20
+    rerankCandidates: 20,
+    agentMode: false,
+    agentMaxSteps: 6
 }
@@ -0,0 +1,24 @@
+/** 32-bit FNV-1a hash of a string's UTF-16 code units. */
+export function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * 32-bit FNV-1a over the 32-bit words of a buffer, for binary files. A
+ * trailing partial word is ignored, which is fine for Float32 data whose
+ * length is also checked.
+ */
+export function checksumBytes(buffer: ArrayBuffer): number {
+    const words = new Int32Array(buffer, 0, Math.floor(buffer.byteLength / 4));
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < words.length; i++) {
+        hash ^= words[i] ?? 0;
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -5,6 +5,9 @@ import type { ChatMessage } from "../settings";
 import type { RAGEngine, AttachedFile } from "../chat/rag-engine";
 import { estimateTokens } from "../chat/rag-engine";
 import { isChatProviderConfigured, isEmbeddingProviderConfigured } from "../llm/factory";
+import { isAbortError } from "../llm/abort";
+import type { UsageRecord } from "../llm/usage";
+import type { ToolCallRecord } from "../chat/agent";
 
 export const VIEW_TYPE_CHATBOT = "chatbot-view";
 
@@ -14,12 +17,45 @@ export const VIEW_TYPE_CHATBOT = "chatbot-view";
  */
 const LARGE_ATTACHMENT_TOKEN_WARNING = 3000;
 
+/**
+ * Minimum time between markdown re-renders of a streaming answer. Re-parsing
+ * the whole answer on every token gets expensive for long replies.
+ */
+const STREAM_RENDER_INTERVAL_MS = 80;
+
+/** Compact token count, e.g. 950 or 12.3k. */
+function formatTokens(count: number): string {
+    return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+}
+
+/** Estimated cost with enough precision to be meaningful for cheap calls. */
+function formatCost(usd: number): string {
+    return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Total tokens and cost over a set of usage records. `cost` is undefined if
+ * any call's price was unknown, so a partial sum isn't shown as the total.
+ */
+function sumUsage(records: UsageRecord[]): { tokens: number; cost: number | undefined } {
+    let tokens = 0;
+    let cost: number | undefined = 0;
+    for (const record of records) {
+        tokens += record.promptTokens + record.completionTokens;
+        cost = cost === undefined || record.costUsd === undefined ? undefined : cost + record.costUsd;
+    }
+    return { tokens, cost };
+}
+
 export class ChatbotView extends ItemView {
     private plugin: MyPlugin;
     private ragEngine: RAGEngine;
     private chatLogEl: HTMLElement | null = null;
+    private conversationUsageEl: HTMLElement | null = null;
     private inputEl: HTMLTextAreaElement | null = null;
     private sendButton: HTMLButtonElement | null = null;
+    /** Set while a request is in flight; the send button acts as Stop until it clears. */
+    private abortController: AbortController | null = null;
     private renderComponent: Component;
     private attachmentPillsEl: HTMLElement | null = null;
     private attachedFiles: AttachedFile[] = [];
@@ -53,6 +89,8 @@ export class ChatbotView extends ItemView {
         // Header with title and reset button
         const headerEl = container.createDiv({ cls: "chat-header" });
         headerEl.createEl("h4", { text: "Chat with Notes" });
+        this.conversationUsageEl = headerEl.createSpan({ cls: "chat-conversation-usage" });
+        this.updateConversationUsage();
         
         const resetButton = headerEl.createEl("button", {
             cls: "chat-reset-button",
@@ -118,7 +156,11 @@ export class ChatbotView extends ItemView {
         });
 
         this.sendButton.addEventListener("click", () => {
-            this.sendMessage();
+            if (this.abortController) {
+                this.abortController.abort();
+            } else {
+                this.sendMessage();
+            }
         });
     }
 
@@ -138,11 +180,13 @@ export class ChatbotView extends ItemView {
         // silently returns no context and the model answers from general
         // knowledge, which is easy to mistake for an answer based on your notes.
         if (!isEmbeddingProviderConfigured(this.plugin.settings)) {
-            new Notice("Please configure an embedding provider in Settings → obsidian note+, then run 'Rebuild Index'.");
+            new Notice("Please configure an embedding provider in Settings → obsidian note+ (the built-in one needs no setup), then run 'Rebuild Index'.");
             return;
         }
 
-        // Disable input during processing
+        // Disable input during processing; the send button becomes Stop
+        const abortController = new AbortController();
+        this.abortController = abortController;
         this.setInputEnabled(false);
 
         // Snapshot attachments for this request; one-shot, so they're only
@@ -174,21 +218,49 @@ export class ChatbotView extends ItemView {
             });
         }
 
-        // Show typing indicator
+        // Show typing indicator until the first streamed token arrives
         const typingIndicator = this.showTypingIndicator();
+        let streamingMessage = null as StreamingMessage | null;
+        const usage: UsageRecord[] = [];
+        const toolCalls: ToolCallRecord[] = [];
+        let toolCallListEl: HTMLElement | null = null;
 
         try {
-            // Send to RAG engine, with any attached files' full content
-            const response = await this.ragEngine.ask(content, conversationHistory, attachedFilesForRequest);
+            // Send to RAG engine, with any attached files' full content. The
+            // answer is rendered live as it streams; only the final text is
+            // persisted below.
+            const response = await this.ragEngine.ask(content, conversationHistory, attachedFilesForRequest, {
+                onToken: (token) => {
+                    if (!streamingMessage) {
+                        typingIndicator.remove();
+                        streamingMessage = this.createStreamingMessage();
+                    }
+                    streamingMessage.append(token);
+                },
+                signal: abortController.signal,
+                onUsage: (record) => usage.push(record),
+                // Agent mode: list each tool call under the typing indicator as it happens
+                onToolCall: (record) => {
+                    toolCalls.push(record);
+                    toolCallListEl ??= typingIndicator.createDiv({ cls: "chat-tool-calls" });
+                    this.renderToolCall(toolCallListEl, record);
+                    this.scrollToBottom();
+                }
+            });
 
-            // Remove typing indicator
+            // Replace the live preview (or typing indicator) with the final message
             typingIndicator.remove();
+            if (streamingMessage) {
+                await streamingMessage.finish();
+            }
 
             // Create and save bot response
             const botMessage: ChatMessage = {
                 content: response,
                 sender: "bot",
-                timestamp: new Date().toISOString()
+                timestamp: new Date().toISOString(),
+                usage,
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined
             };
 
             this.plugin.settings.chatHistory.push(botMessage);
@@ -204,9 +276,29 @@ export class ChatbotView extends ItemView {
             this.renderAttachmentPills();
         } catch (error) {
             typingIndicator.remove();
-            const errorMsg = error instanceof Error ? error.message : "Unknown error";
-            new Notice(`Error: ${errorMsg}`);
+            const partial = streamingMessage ? await streamingMessage.finish() : "";
+            if (isAbortError(error)) {
+                // Keep whatever part of the answer had already streamed in, so
+                // stopping a long answer doesn't throw away what was read.
+                if (partial) {
+                    const botMessage: ChatMessage = {
+                        content: partial,
+                        sender: "bot",
+                        timestamp: new Date().toISOString(),
+                        usage
+                    };
+                    this.plugin.settings.chatHistory.push(botMessage);
+                    await this.plugin.saveSettings();
+                    await this.renderMessage(botMessage);
+                    this.scrollToBottom();
+                }
+                new Notice("Stopped");
+            } else {
+                const errorMsg = error instanceof Error ? error.message : "Unknown error";
+                new Notice(`Error: ${errorMsg}`);
+            }
         } finally {
+            this.abortController = null;
             this.setInputEnabled(true);
             this.inputEl?.focus();
         }
@@ -217,7 +309,10 @@ export class ChatbotView extends ItemView {
             this.inputEl.disabled = !enabled;
         }
         if (this.sendButton) {
-            this.sendButton.disabled = !enabled;
+            // While a request runs the button stays clickable as a Stop button.
+            this.sendButton.setText(enabled ? "Send" : "Stop");
+            this.sendButton.toggleClass("chat-stop-button", !enabled);
+            this.sendButton.setAttribute("aria-label", enabled ? "Send message" : "Stop generating");
         }
     }
 
@@ -231,6 +326,20 @@ export class ChatbotView extends ItemView {
         return indicator;
     }
 
+    /**
+     * Create a bot bubble that shows an answer while it is still streaming.
+     * It is removed once the answer completes and replaced by the regular,
+     * persisted message.
+     */
+    private createStreamingMessage(): StreamingMessage {
+        const messageEl = this.chatLogEl?.createDiv({ cls: "chat-message chat-message-bot chat-message-streaming" })
+            ?? document.createElement("div");
+        const contentEl = messageEl
+            .createDiv({ cls: "chat-message-bubble" })
+            .createDiv({ cls: "chat-message-content" });
+        return new StreamingMessage(this.app, messageEl, contentEl, this.renderComponent, () => this.scrollToBottom());
+    }
+
     private async renderMessage(message: ChatMessage) {
         if (!this.chatLogEl) return;
 
@@ -258,6 +367,15 @@ export class ChatbotView extends ItemView {
 
         const messageBubble = messageEl.createDiv({ cls: "chat-message-bubble" });
 
+        if (message.toolCalls && message.toolCalls.length > 0) {
+            const count = message.toolCalls.length;
+            const details = messageBubble.createEl("details", { cls: "chat-tool-calls" });
+            details.createEl("summary", { text: `Used ${count} tool ${count === 1 ? "call" : "calls"}` });
+            for (const record of message.toolCalls) {
+                this.renderToolCall(details, record);
+            }
+        }
+
         const contentEl = messageBubble.createDiv({ cls: "chat-message-content" });
 
         // Use MarkdownRenderer for bot messages to make [[WikiLinks]] clickable
@@ -283,6 +401,73 @@ export class ChatbotView extends ItemView {
             cls: "chat-message-time",
             text: timeStr 
         });
+
+        if (message.usage && message.usage.length > 0) {
+            this.renderUsageFooter(messageBubble, message.usage);
+        }
+        this.updateConversationUsage();
+    }
+
+    /** One agent tool call: the tool and what it found, with the arguments on hover. */
+    private renderToolCall(containerEl: HTMLElement, record: ToolCallRecord) {
+        const row = containerEl.createDiv({
+            cls: "chat-tool-call",
+            attr: { title: JSON.stringify(record.arguments) }
+        });
+        row.toggleClass("is-failed", record.failed === true);
+        row.createSpan({ cls: "chat-tool-call-name", text: record.name });
+        row.createSpan({ text: ` ${record.summary}` });
+    }
+
+    /**
+     * Summarize an answer's token usage under the message: the answer call's
+     * model, tokens and latency, plus the hidden helper calls (rewrite, HyDE,
+     * rerank) and the estimated total cost. Hover shows each call.
+     */
+    private renderUsageFooter(containerEl: HTMLElement, records: UsageRecord[]) {
+        const answer = records.find(r => r.kind === "answer");
+        const helpers = records.filter(r => r.kind !== "answer");
+        const parts: string[] = [];
+
+        if (answer) {
+            if (answer.model) parts.push(answer.model);
+            const approx = answer.estimated ? "~" : "";
+            parts.push(`${approx}${formatTokens(answer.promptTokens)} in / ${approx}${formatTokens(answer.completionTokens)} out`);
+            if (answer.latencyMs !== undefined) parts.push(`${(answer.latencyMs / 1000).toFixed(1)}s`);
+        }
+        if (helpers.length > 0) {
+            parts.push(`+${helpers.length} helper ${helpers.length === 1 ? "call" : "calls"} (${formatTokens(sumUsage(helpers).tokens)} tokens)`);
+        }
+        const { cost } = sumUsage(records);
+        if (cost !== undefined) parts.push(`≈ ${formatCost(cost)}`);
+
+        const details = records.map(r => {
+            const source = [r.provider, r.model].filter(Boolean).join(" / ");
+            const latency = r.latencyMs !== undefined ? `, ${(r.latencyMs / 1000).toFixed(1)}s` : "";
+            const costText = r.costUsd !== undefined ? `, ${formatCost(r.costUsd)}` : "";
+            return `${r.kind}: ${source} ${r.promptTokens} in / ${r.completionTokens} out${latency}${costText}${r.estimated ? " (estimated)" : ""}`;
+        });
+
+        containerEl.createDiv({
+            cls: "chat-message-usage",
+            text: parts.join(" · "),
+            attr: { title: details.join("\n") }
+        });
+    }
+
+    /** Show total tokens and estimated cost for the whole conversation in the header. */
+    private updateConversationUsage() {
+        if (!this.conversationUsageEl) return;
+        const records = this.plugin.settings.chatHistory.flatMap(m => m.usage ?? []);
+        if (records.length === 0) {
+            this.conversationUsageEl.setText("");
+            return;
+        }
+        const { tokens, cost } = sumUsage(records);
+        this.conversationUsageEl.setText(
+            cost !== undefined ? `${formatTokens(tokens)} tokens · ≈ ${formatCost(cost)}` : `${formatTokens(tokens)} tokens`
+        );
+        this.conversationUsageEl.setAttribute("aria-label", "Tokens and estimated cost for this conversation");
     }
 
     private scrollToBottom() {
@@ -433,6 +618,7 @@ export class ChatbotView extends ItemView {
         if (this.chatLogEl) {
             this.chatLogEl.empty();
         }
+        this.updateConversationUsage();
         
         new Notice("Conversation cleared");
     }
@@ -450,16 +636,67 @@ export class ChatbotView extends ItemView {
     }
 }
 
-class ConfirmModal extends Modal {
+/**
+ * Live preview of a streaming bot answer. Tokens are accumulated and the
+ * markdown is re-rendered at most once per {@link STREAM_RENDER_INTERVAL_MS},
+ * rendering off-DOM first so the bubble doesn't flicker between frames.
+ */
+class StreamingMessage {
+    private text = "";
+    private timer: number | null = null;
+    private rendering: Promise<void> = Promise.resolve();
+
+    constructor(
+        private app: App,
+        private messageEl: HTMLElement,
+        private contentEl: HTMLElement,
+        private component: Component,
+        private onRendered: () => void
+    ) {}
+
+    append(token: string): void {
+        this.text += token;
+        if (this.timer !== null) return;
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            this.rendering = this.rendering.then(() => this.render());
+        }, STREAM_RENDER_INTERVAL_MS);
+    }
+
+    /**
+     * Stop rendering and remove the preview from the chat log. Resolves with
+     * the text received so far.
+     */
+    async finish(): Promise<string> {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        await this.rendering;
+        this.messageEl.remove();
+        return this.text;
+    }
+
+    private async render(): Promise<void> {
+        const next = document.createElement("div");
+        await MarkdownRenderer.render(this.app, this.text, next, "", this.component);
+        this.contentEl.replaceChildren(...Array.from(next.childNodes));
+        this.onRendered();
+    }
+}
+
+export class ConfirmModal extends Modal {
     private title: string;
     private message: string;
     private resolve: (value: boolean) => void;
+    private confirmText: string;
 
-    constructor(app: App, title: string, message: string, resolve: (value: boolean) => void) {
+    constructor(app: App, title: string, message: string, resolve: (value: boolean) => void, confirmText = "Clear") {
         super(app);
         this.title = title;
         this.message = message;
         this.resolve = resolve;
+        this.confirmText = confirmText;
     }
 
     onOpen() {
@@ -479,7 +716,7 @@ class ConfirmModal extends Modal {
         });
 
         const confirmButton = buttonContainer.createEl("button", { 
-            text: "Clear",
+            text: this.confirmText,
             cls: "mod-warning"
         });
         confirmButton.addEventListener("click", () => {